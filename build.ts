@@ -1,131 +1,432 @@
 /**
  * openclaw-superpack build script
  *
- * Builds openclaw with overlay files injected via a rolldown plugin.
- * Patches the upstream tsdown.config.ts at runtime by prepending a plugin;
- * does not copy or modify any upstream files.
+ * Builds openclaw with overlay files injected via a rolldown plugin
+ * (src/build/overlay-plugin.ts).
+ * Wraps the upstream tsdown.config.ts at runtime by prepending a plugin;
+ * does not copy, modify, or add any files in the upstream checkout.
  *
  * Paths are configured via env vars (or edit the defaults below):
  *   OPENCLAW_UPSTREAM  — path to your openclaw-git checkout
- *   OPENCLAW_SUPERPACK — path to this superpack checkout
+ *   OPENCLAW_SUPERPACK — path to this superpack checkout, or several overlay
+ *                        layers separated by the platform path delimiter
+ *                        (":" on POSIX), topmost first
  *
  * Usage:
  *   pnpm build          # or: node --import tsx build.ts
  *   pnpm watch          # or: node --import tsx build.ts --watch
+ *   pnpm reconcile      # or: node --import tsx build.ts --reconcile
+ *   node --import tsx build.ts --dry-run --explain
+ *
+ * Overlays are declared in superpack.overlays.json (see src/build/manifest.ts).
+ * Before building, each overlay's upstream counterpart is compared against
+ * the blob pinned in the manifest. The build refuses to run when
+ * upstream changed since the last reconcile; pass --allow-drift to build
+ * anyway, or --reconcile once the upstream changes have been absorbed.
+ *
+ * Each overlay's exports are then type-checked against the upstream module
+ * it replaces; missing or incompatible exports fail the build
+ * (--skip-export-check to bypass).
+ *
+ * --explain prints every import the overlay plugin would redirect, plus
+ * imports that reach a shadowed file without being redirected. --dry-run
+ * runs all checks but writes nothing and does not invoke tsdown.
+ *
+ * In watch mode the script supervises tsdown: editing the manifest restarts
+ * it with the new overlay set, and editing an upstream file an overlay
+ * shadows prints a drift warning right away.
+ *
+ * Overlays with `"target": "ui"` apply to the web UI's vite build, which runs
+ * after tsdown with the same plugin; without any, upstream's `pnpm ui:build`
+ * runs as-is. Watch mode only covers the main build.
+ *
+ * After a successful (non-watch) build, dist is scanned for the markers the
+ * overlay plugin injects; any overlay missing from the output fails the build.
  */
 
-import { spawn } from "node:child_process";
-import { writeFileSync, mkdirSync } from "node:fs";
+import { spawn, type ChildProcess } from "node:child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync, unlinkSync, writeFileSync } from "node:fs";
+import os from "node:os";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { checkDrift, formatDriftReport, upstreamBlobHash, upstreamHead } from "./src/build/drift.ts";
+import { explainOverlayResolution, formatExplanation } from "./src/build/explain.ts";
+import { checkExportSurface, formatExportReport } from "./src/build/exports.ts";
+import {
+  layerLabel,
+  readManifest,
+  resolveLayeredOverlays,
+  writeManifest,
+  MANIFEST_FILENAME,
+  type OverlayLayer,
+  type OverlayTarget,
+  type ResolvedOverlay,
+} from "./src/build/manifest.ts";
+import { overlayAliases } from "./src/build/overlay-plugin.ts";
+import { formatDistReport, verifyDist } from "./src/build/verify.ts";
+import { watchFiles } from "./src/build/watch.ts";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 const UPSTREAM = process.env.OPENCLAW_UPSTREAM ?? "/opt/openclaw-git";
-const OVERLAY = process.env.OPENCLAW_SUPERPACK ?? __dirname;
-
-// ---------------------------------------------------------------------------
-// Overlay map: add entries here to shadow more upstream files
-// ---------------------------------------------------------------------------
-const OVERLAY_ALIASES: Record<string, string> = {
-  [path.join(UPSTREAM, "src/agents/system-prompt.ts")]: path.join(
-    OVERLAY,
-    "src/agents/system-prompt.ts",
-  ),
-  [path.join(UPSTREAM, "src/plugins/types.ts")]: path.join(
-    OVERLAY,
-    "src/plugins/types.ts",
-  ),
-  [path.join(UPSTREAM, "src/plugins/hooks.ts")]: path.join(
-    OVERLAY,
-    "src/plugins/hooks.ts",
-  ),
-  [path.join(UPSTREAM, "src/agents/workspace.ts")]: path.join(
-    OVERLAY,
-    "src/agents/workspace.ts",
-  ),
-};
+const LAYERS = (process.env.OPENCLAW_SUPERPACK ?? __dirname)
+  .split(path.delimiter)
+  .filter(Boolean)
+  .map((dir) => path.resolve(dir));
+
+// ---------------------------------------------------------------------------
+// Overlay map: declared in each layer's superpack.overlays.json; the topmost
+// layer that declares a file wins
+// ---------------------------------------------------------------------------
+const readLayers = (): OverlayLayer[] =>
+  LAYERS.map((dir) => ({ dir, manifest: readManifest(dir) }));
+
+const layers = readLayers();
+const overlays = resolveLayeredOverlays(layers, UPSTREAM);
 
 const args = process.argv.slice(2);
 const watch = args.includes("--watch");
+const reconcile = args.includes("--reconcile");
+const allowDrift = args.includes("--allow-drift") || process.env.SUPERPACK_ALLOW_DRIFT === "1";
+const skipExportCheck = args.includes("--skip-export-check");
+const dryRun = args.includes("--dry-run");
+const explain = args.includes("--explain");
+
+// ---------------------------------------------------------------------------
+// Drift check: has upstream changed under any overlay since the last reconcile?
+// ---------------------------------------------------------------------------
+if (reconcile) {
+  // Each hash goes to the layer whose entry is in effect for that file
+  const head = upstreamHead(UPSTREAM);
+  for (const { dir, manifest } of layers) {
+    const owned = new Set(overlays.filter((o) => o.layer === dir).map((o) => o.rel));
+    if (owned.size === 0) continue;
+    for (const entry of manifest.overlays) {
+      if (!owned.has(entry.upstream)) continue;
+      const blob = upstreamBlobHash(UPSTREAM, entry.upstream);
+      if (!blob) {
+        console.error(`openclaw-superpack: cannot reconcile ${entry.upstream} — missing upstream`);
+        process.exit(1);
+      }
+      entry.upstreamHash = blob;
+    }
+    manifest.upstreamCommit = head;
+    writeManifest(dir, manifest);
+    console.log(
+      `openclaw-superpack: recorded ${owned.size} upstream hashes in ${path.join(dir, MANIFEST_FILENAME)}`,
+    );
+  }
+  process.exit(0);
+}
+
+const driftReports = checkDrift({ upstreamDir: UPSTREAM, overlays });
+const drifted = driftReports.filter((r) => r.status === "drifted" || r.status === "missing");
+
+console.log("openclaw-superpack: checking overlays against upstream");
+for (const report of driftReports) {
+  for (const line of formatDriftReport(report)) console.log(line);
+}
+if (driftReports.some((r) => r.status === "unpinned")) {
+  console.warn(
+    "openclaw-superpack: some overlays have no recorded upstream hash; run `pnpm reconcile` once they are verified",
+  );
+}
+if (drifted.length > 0) {
+  if (!allowDrift) {
+    console.error(
+      `openclaw-superpack: ${drifted.length} overlay(s) drifted from upstream. Absorb the changes, then ` +
+        "run `pnpm reconcile` — or rebuild with --allow-drift to build anyway.",
+    );
+    process.exit(1);
+  }
+  console.warn(`openclaw-superpack: ⚠ building with ${drifted.length} drifted overlay(s) (--allow-drift)`);
+}
+
+// ---------------------------------------------------------------------------
+// Export-surface check: do overlays still satisfy upstream importers?
+// ---------------------------------------------------------------------------
+if (!skipExportCheck) {
+  console.log("openclaw-superpack: checking overlay exports against upstream");
+  const exportReports = checkExportSurface({ upstreamDir: UPSTREAM, layers: LAYERS, overlays });
+  for (const report of exportReports) {
+    for (const line of formatExportReport(report)) console.log(line);
+  }
+  const broken = exportReports.filter((r) => r.issues.length > 0);
+  if (broken.length > 0) {
+    console.error(
+      `openclaw-superpack: ${broken.length} overlay(s) no longer match the upstream export surface. ` +
+        "Fix the exports listed above — or rebuild with --skip-export-check to build anyway.",
+    );
+    process.exit(1);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Explain: how would superpack-overlay resolve every import?
+// ---------------------------------------------------------------------------
+if (explain) {
+  console.log("openclaw-superpack: overlay redirects");
+  const entries = explainOverlayResolution({ upstreamDir: UPSTREAM, layers: LAYERS, overlays });
+  for (const line of formatExplanation(entries, { upstreamDir: UPSTREAM, layers: LAYERS })) {
+    console.log(line);
+  }
+  if (entries.some((e) => e.kind === "near-miss")) {
+    console.warn(
+      "openclaw-superpack: ⚠ some imports reach a shadowed file without being redirected; " +
+        "the upstream version will be bundled for those",
+    );
+  }
+}
+
+function printOverlayBanner(heading: string, set: ResolvedOverlay[]): void {
+  console.log(`openclaw-superpack: ${heading}`);
+  if (LAYERS.length > 1) {
+    const names = LAYERS.map((dir) => {
+      const label = layerLabel(dir, LAYERS);
+      return label === dir ? dir : `${label} (${dir})`;
+    });
+    console.log(`  layers, topmost first: ${names.join(", ")}`);
+  }
+  for (const o of set) {
+    const tags = [o.kind === "patch" && "patch", o.target === "ui" && "ui"].filter(Boolean);
+    const tag = tags.length > 0 ? ` (${tags.join(", ")})` : "";
+    const source = `${layerLabel(o.layer, LAYERS)}:${path.relative(o.layer, o.overlayPath)}`;
+    console.log(`  ${o.rel} → ${source}${tag}`);
+  }
+}
+
+if (dryRun) {
+  printOverlayBanner("dry run — would build with overlay", overlays);
+  process.exit(0);
+}
 
 // ---------------------------------------------------------------------------
 // Generate a wrapper tsdown config that wraps the upstream one.
-// Written into UPSTREAM root so all relative paths and node_modules resolve.
+// Written to a temp dir so the upstream checkout stays clean; the upstream
+// config is imported by absolute path, and tsdown runs in UPSTREAM with the
+// config's `cwd` pinned there, so relative paths and node_modules resolve
+// as before.
 // ---------------------------------------------------------------------------
-const aliasJson = JSON.stringify(
-  Object.entries(OVERLAY_ALIASES).map(([find, replacement]) => ({ find, replacement })),
-);
+const pluginModule = path.join(__dirname, "src/build/overlay-plugin.ts");
+const verifyModule = path.join(__dirname, "src/build/verify.ts");
 
-const tmpConfig = `
-import baseConfigs from "./tsdown.config.ts";
-import path from "node:path";
+const forTarget = (set: ResolvedOverlay[], target: OverlayTarget) =>
+  set.filter((o) => o.target === target);
 
-const aliases = ${aliasJson};
-const OVERLAY_DIR = ${JSON.stringify(OVERLAY)};
-const UPSTREAM_DIR = ${JSON.stringify(UPSTREAM)};
-
-// Build a reverse map: overlay replacement path -> upstream original path
-const reverseMap = {};
-for (const { find, replacement } of aliases) {
-  reverseMap[replacement] = find;
-}
-
-/** Rolldown plugin that redirects overlay files at resolve time */
-const overlayPlugin = {
-  name: "superpack-overlay",
-  resolveId(id, importer) {
-    // 1. Check if the resolved absolute path matches an overlay target
-    for (const { find, replacement } of aliases) {
-      if (id === find) return replacement;
-      if (importer && id.startsWith(".")) {
-        const abs = path.resolve(path.dirname(importer), id);
-        // rolldown hands us the .ts path directly
-        if (abs === find) return replacement;
-        // sometimes the import uses .js extension mapping to .ts
-        const asTs = abs.replace(/\\.js$/, ".ts");
-        if (asTs === find) return replacement;
-      }
-    }
+function pluginOptions(set: ResolvedOverlay[]): string {
+  return `{
+  aliases: ${JSON.stringify(overlayAliases(set))},
+  layers: ${JSON.stringify(LAYERS)},
+  upstreamDir: ${JSON.stringify(UPSTREAM)},
+}`;
+}
 
-    // 2. When importing FROM an overlay file, resolve relative imports
-    //    against the upstream directory so non-overlaid siblings resolve.
-    if (importer && id.startsWith(".") && importer.startsWith(OVERLAY_DIR + "/")) {
-      // Map the importer back to its upstream counterpart directory
-      const relFromOverlay = path.relative(OVERLAY_DIR, importer);
-      const upstreamImporter = path.join(UPSTREAM_DIR, relFromOverlay);
-      let resolved = path.resolve(path.dirname(upstreamImporter), id);
-      // Map .js imports to .ts source files (rolldown resolves .ts files)
-      resolved = resolved.replace(/\\.js$/, ".ts");
-      return resolved;
-    }
+function wrapperConfig(set: ResolvedOverlay[]): string {
+  return `
+import baseConfigs from ${JSON.stringify(path.join(UPSTREAM, "tsdown.config.ts"))};
+import { createOverlayPlugin } from ${JSON.stringify(pluginModule)};
 
-    return undefined;
-  },
-};
+const overlayPlugin = createOverlayPlugin(${pluginOptions(forTarget(set, "main"))});
 
 const configs = Array.isArray(baseConfigs) ? baseConfigs : [baseConfigs];
 
 export default configs.map((cfg) => ({
+  cwd: ${JSON.stringify(UPSTREAM)},
   ...cfg,
   plugins: [overlayPlugin, ...(cfg.plugins ?? [])],
 }));
 `;
+}
+
+// Older builds wrote the wrapper into the upstream checkout
+const legacyConfigPath = path.join(UPSTREAM, "tsdown.superpack.config.ts");
+if (existsSync(legacyConfigPath)) {
+  unlinkSync(legacyConfigPath);
+  console.log(`openclaw-superpack: removed stale ${legacyConfigPath}`);
+}
+
+const tmpDir = mkdtempSync(path.join(os.tmpdir(), "openclaw-superpack-"));
+const tmpConfigPath = path.join(tmpDir, "tsdown.superpack.config.ts");
+writeFileSync(tmpConfigPath, wrapperConfig(overlays));
+process.on("exit", () => rmSync(tmpDir, { recursive: true, force: true }));
+
+printOverlayBanner("building with overlay", forTarget(overlays, "main"));
+
+function startTsdown(): ChildProcess {
+  const cmd = ["pnpm", "exec", "tsdown", "--config", tmpConfigPath, ...(watch ? ["--watch"] : [])];
+  return spawn(cmd[0], cmd.slice(1), {
+    cwd: UPSTREAM,
+    stdio: "inherit",
+    env: { ...process.env },
+  });
+}
+
+let proc = startTsdown();
+
+// Forward termination to tsdown and exit, which runs the temp dir cleanup.
+// Handling the signal ourselves keeps Node from dying before that happens.
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    proc.kill(signal);
+    process.exit(128 + os.constants.signals[signal]);
+  });
+}
+
+if (watch) {
+  superviseWatch();
+} else {
+  proc.on("exit", (code) => {
+    if (code !== 0) process.exit(code ?? 1);
+    buildUi();
+  });
+}
+
+// ---------------------------------------------------------------------------
+// UI build: vite in ui/, with the same plugin when any overlay targets it.
+// Without ui overlays, upstream's own `pnpm ui:build` runs unchanged.
+// ---------------------------------------------------------------------------
+const UI_DIR = path.join(UPSTREAM, "ui");
+// The ui build records its resolved output directory here, so verification
+// looks for ui overlays there and only there
+const uiOutDirFile = path.join(tmpDir, "ui-out-dir");
+
+function uiWrapperConfig(baseConfigPath: string, set: ResolvedOverlay[]): string {
+  return `
+import { writeFileSync } from "node:fs";
+import baseConfig from ${JSON.stringify(baseConfigPath)};
+import { createOverlayPlugin } from ${JSON.stringify(pluginModule)};
+import { uiOutDir } from ${JSON.stringify(verifyModule)};
+
+const overlayPlugin = createOverlayPlugin(${pluginOptions(set)});
+const recordOutDir = {
+  name: "superpack-ui-out-dir",
+  configResolved(config) {
+    writeFileSync(${JSON.stringify(uiOutDirFile)}, uiOutDir(config));
+  },
+};
+
+export default async (env) => {
+  const cfg = await (typeof baseConfig === "function" ? baseConfig(env) : baseConfig);
+  return {
+    ...cfg,
+    root: cfg.root ?? ${JSON.stringify(UI_DIR)},
+    // Must run before vite's own resolver, which would otherwise claim relative imports
+    plugins: [{ ...overlayPlugin, enforce: "pre" }, ...(cfg.plugins ?? []), recordOutDir],
+  };
+};
+`;
+}
 
-const tmpConfigPath = path.join(UPSTREAM, "tsdown.superpack.config.ts");
-writeFileSync(tmpConfigPath, tmpConfig);
+function buildUi(): void {
+  const uiOverlays = forTarget(overlays, "ui");
+  if (uiOverlays.length === 0) {
+    proc = spawn("pnpm", ["ui:build"], { cwd: UPSTREAM, stdio: "inherit", env: { ...process.env } });
+  } else {
+    const baseConfigPath = ["vite.config.ts", "vite.config.mts", "vite.config.js"]
+      .map((name) => path.join(UI_DIR, name))
+      .find((p) => existsSync(p));
+    if (!baseConfigPath) {
+      console.error(`openclaw-superpack: ui overlays declared but no vite config found in ${UI_DIR}`);
+      process.exit(1);
+    }
+    const uiConfigPath = path.join(tmpDir, "vite.superpack.config.ts");
+    writeFileSync(uiConfigPath, uiWrapperConfig(baseConfigPath, uiOverlays));
+    printOverlayBanner("building ui with overlay", uiOverlays);
+    proc = spawn("pnpm", ["exec", "vite", "build", "--config", uiConfigPath], {
+      cwd: UI_DIR,
+      stdio: "inherit",
+      env: { ...process.env },
+    });
+  }
+  proc.on("exit", verifyBuildOutput);
+}
 
-console.log("openclaw-superpack: building with overlay");
-for (const [from, to] of Object.entries(OVERLAY_ALIASES)) {
-  console.log(`  ${path.relative(UPSTREAM, from)} → ${path.relative(OVERLAY, to)}`);
+// ---------------------------------------------------------------------------
+// Post-build: did every overlay actually land in dist?
+// ---------------------------------------------------------------------------
+function verifyBuildOutput(code: number | null): void {
+  if (code !== 0) process.exit(code ?? 1);
+
+  console.log("openclaw-superpack: verifying overlays in dist");
+  const distReports = verifyDist({
+    distDir: path.join(UPSTREAM, "dist"),
+    uiDistDir: existsSync(uiOutDirFile) ? readFileSync(uiOutDirFile, "utf-8") : undefined,
+    overlays,
+  });
+  for (const report of distReports) {
+    for (const line of formatDistReport(report)) console.log(line);
+  }
+  const missing = distReports.filter((r) => r.status === "missing");
+  if (distReports.some((r) => r.status === "duplicated")) {
+    console.warn(
+      "openclaw-superpack: ⚠ some upstream modules were bundled next to their overlays; " +
+        "run with --dry-run --explain to find the imports that bypass the redirect",
+    );
+  }
+  if (missing.length > 0) {
+    console.error(`openclaw-superpack: ${missing.length} overlay(s) missing from the build output`);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+// ---------------------------------------------------------------------------
+// Watch supervisor: tsdown --watch only sees the module graph. Restart it when
+// the manifest changes the overlay set, and warn as soon as upstream edits a
+// file an overlay shadows.
+// ---------------------------------------------------------------------------
+function overlaySetKey(set: ResolvedOverlay[]): string {
+  return JSON.stringify(set.map((o) => [o.upstreamPath, o.overlayPath, o.kind, o.target, o.below]));
 }
 
-const cmd = ["pnpm", "exec", "tsdown", "--config", "tsdown.superpack.config.ts", ...(watch ? ["--watch"] : [])];
+function superviseWatch(): void {
+  let active = overlays;
+  let restarting = false;
 
-const proc = spawn(cmd[0], cmd.slice(1), {
-  cwd: UPSTREAM,
-  stdio: "inherit",
-  env: { ...process.env },
-});
+  const onTsdownExit = (code: number | null) => {
+    if (!restarting) process.exit(code ?? 0);
+  };
+  proc.on("exit", onTsdownExit);
 
-proc.on("exit", (code) => process.exit(code ?? 0));
+  const watchUpstream = () =>
+    watchFiles(
+      active.map((o) => o.upstreamPath),
+      (file) => {
+        const overlay = active.find((o) => o.upstreamPath === file);
+        if (!overlay) return;
+        const [report] = checkDrift({ upstreamDir: UPSTREAM, overlays: [overlay] });
+        if (report.status === "clean" || report.status === "unpinned") return;
+        console.warn("openclaw-superpack: ⚠ upstream changed under an overlay");
+        for (const line of formatDriftReport(report)) console.warn(line);
+      },
+    );
+  let upstreamWatcher = watchUpstream();
+
+  watchFiles(LAYERS.map((dir) => path.join(dir, MANIFEST_FILENAME)), () => {
+    let next: ResolvedOverlay[];
+    try {
+      next = resolveLayeredOverlays(readLayers(), UPSTREAM);
+    } catch (err) {
+      console.error(`openclaw-superpack: ${(err as Error).message} — keeping the current overlays`);
+      return;
+    }
+    const changed = overlaySetKey(next) !== overlaySetKey(active);
+    // Pinned hashes may have moved (pnpm reconcile) even if the set did not
+    active = next;
+    upstreamWatcher.close();
+    upstreamWatcher = watchUpstream();
+    if (!changed) return;
+
+    writeFileSync(tmpConfigPath, wrapperConfig(active));
+    // One restart at a time: the pending one starts tsdown on the config just written
+    if (restarting) return;
+    restarting = true;
+    proc.once("exit", () => {
+      printOverlayBanner("overlay set changed — restarting tsdown", active);
+      restarting = false;
+      proc = startTsdown();
+      proc.on("exit", onTsdownExit);
+    });
+    proc.kill("SIGTERM");
+  });
+}
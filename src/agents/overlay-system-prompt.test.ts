@@ -0,0 +1,97 @@
+/**
+ * Tests for overlay system-prompt.ts diagnostics — the overlay must honour
+ * the shared flag set (config, presets, runtime toggles, scopes) rather than
+ * a private copy of it.
+ *
+ * system-prompt.ts only imports types from upstream, so it can be imported
+ * directly.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { addDiagSink, type DiagRecord } from "../diag.js";
+import { enableFlags, resetFlags, resetRuntimeFlags, setConfigFlags } from "../flags.js";
+import { resetRedaction } from "../redact.js";
+import { buildAgentSystemPrompt } from "./system-prompt.js";
+import { resetPromptHistory } from "./prompt-history.js";
+
+describe("overlay system-prompt.ts — diagnostics", () => {
+  const originalEnv = { ...process.env };
+  let records: DiagRecord[];
+  let removeSink: () => void;
+  let stateDir: string;
+
+  const build = (agentId: string) =>
+    buildAgentSystemPrompt({
+      workspaceDir: "/ws",
+      toolNames: ["read", "exec"],
+      runtimeInfo: { agentId },
+    } as Parameters<typeof buildAgentSystemPrompt>[0]);
+
+  beforeEach(() => {
+    delete process.env.SUPERPACK_FLAGS;
+    delete process.env.SUPERPACK_PRESET;
+    stateDir = mkdtempSync(path.join(os.tmpdir(), "superpack-sp-"));
+    process.env.OPENCLAW_STATE_DIR = stateDir;
+    resetFlags();
+    resetPromptHistory();
+    records = [];
+    removeSink = addDiagSink((r) => records.push(r));
+    vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    removeSink();
+    process.env = { ...originalEnv };
+    setConfigFlags([], undefined);
+    resetRuntimeFlags();
+    resetFlags();
+    resetRedaction();
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it("no longer carries its own flag or diag helpers", () => {
+    const src = readFileSync(path.join(__dirname, "system-prompt.ts"), "utf-8");
+    expect(src).not.toContain("superpackFlag");
+    expect(src).not.toContain("\\x1b[");
+    expect(src).toContain('from "../flags.js"');
+    expect(src).toContain('from "../diag.js"');
+  });
+
+  it("honours config presets other than debug_prompts", () => {
+    setConfigFlags([], "debug_tools");
+    build("main");
+    expect(records.map((r) => [r.flag, r.level])).toEqual([["dump_tool_resolution", "list"]]);
+    expect(records[0].payload).toEqual(["read", "exec"]);
+  });
+
+  it("honours runtime toggles", () => {
+    enableFlags(["dump_system_prompt"]);
+    const prompt = build("main");
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ level: "dump", payload: prompt, agentId: "main" });
+    expect(records[0].hash).toMatch(/^[0-9a-f]{12}$/);
+  });
+
+  it("scopes flags to the agent being built", () => {
+    process.env.SUPERPACK_FLAGS = "dump_system_prompt@agent=helper";
+    build("main");
+    build("helper");
+    expect(records.map((r) => r.agentId)).toEqual(["helper"]);
+  });
+
+  it("keeps owner numbers out of diag output", () => {
+    enableFlags(["dump_system_prompt"]);
+    const prompt = buildAgentSystemPrompt({
+      workspaceDir: "/ws",
+      ownerNumbers: ["5551234"],
+      extraSystemPrompt: "Owner: 5551234",
+      runtimeInfo: { agentId: "main" },
+    } as Parameters<typeof buildAgentSystemPrompt>[0]);
+    expect(prompt).toContain("Owner: 5551234");
+    expect(records[0].payload).toContain("Owner: [REDACTED]");
+  });
+});
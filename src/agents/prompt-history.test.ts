@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { addSensitiveValues, resetRedaction } from "../redact.js";
+import { resetPromptHistory, swapLastPrompt } from "./prompt-history.js";
+
+describe("swapLastPrompt", () => {
+  const originalStateDir = process.env.OPENCLAW_STATE_DIR;
+  let stateDir: string;
+
+  beforeEach(() => {
+    stateDir = mkdtempSync(path.join(os.tmpdir(), "superpack-prompts-"));
+    process.env.OPENCLAW_STATE_DIR = stateDir;
+    resetPromptHistory();
+  });
+
+  afterEach(() => {
+    if (originalStateDir === undefined) delete process.env.OPENCLAW_STATE_DIR;
+    else process.env.OPENCLAW_STATE_DIR = originalStateDir;
+    rmSync(stateDir, { recursive: true, force: true });
+    resetRedaction();
+  });
+
+  it("returns undefined the first time, then the previous prompt", () => {
+    expect(swapLastPrompt("main", "full", "one")).toBeUndefined();
+    expect(swapLastPrompt("main", "full", "two")).toBe("one");
+    expect(swapLastPrompt("main", "full", "two")).toBe("two");
+  });
+
+  it("keeps agents and modes apart", () => {
+    swapLastPrompt("main", "full", "main full");
+    swapLastPrompt("main", "minimal", "main minimal");
+    swapLastPrompt("helper", "full", "helper full");
+    expect(swapLastPrompt("main", "full", "x")).toBe("main full");
+    expect(swapLastPrompt("main", "minimal", "x")).toBe("main minimal");
+    expect(swapLastPrompt("helper", "full", "x")).toBe("helper full");
+  });
+
+  it("persists to the state dir and survives a restart", () => {
+    swapLastPrompt("main", "full", "before restart");
+    const file = path.join(stateDir, "superpack", "prompts", "main.full.txt");
+    expect(readFileSync(file, "utf-8")).toBe("before restart");
+
+    resetPromptHistory();
+    expect(swapLastPrompt("main", "full", "after restart")).toBe("before restart");
+  });
+
+  it("writes the redacted prompt, readable by the owner only", () => {
+    addSensitiveValues(["+15551234567"]);
+    const prompt = "Owner numbers: +15551234567\nKey: sk-ant-REDACTED";
+    swapLastPrompt("main", "full", prompt);
+    const file = path.join(stateDir, "superpack", "prompts", "main.full.txt");
+    expect(readFileSync(file, "utf-8")).toBe("Owner numbers: [REDACTED]\nKey: [REDACTED]");
+    if (process.platform !== "win32") expect(statSync(file).mode & 0o777).toBe(0o600);
+
+    // The redacted baseline still matches the same prompt after a restart
+    resetPromptHistory();
+    expect(swapLastPrompt("main", "full", prompt)).toBe(prompt);
+  });
+
+  it("sanitizes agent ids into file names", () => {
+    swapLastPrompt("../evil/agent", "full", "p");
+    expect(existsSync(path.join(stateDir, "superpack", "prompts", ".._evil_agent.full.txt"))).toBe(true);
+  });
+
+  it("still works in memory when the state dir is not writable", () => {
+    // a regular file where the state dir should be
+    const blocker = path.join(stateDir, "blocker");
+    writeFileSync(blocker, "");
+    process.env.OPENCLAW_STATE_DIR = blocker;
+    expect(swapLastPrompt("main", "full", "one")).toBeUndefined();
+    expect(swapLastPrompt("main", "full", "two")).toBe("one");
+  });
+});
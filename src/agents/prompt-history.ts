@@ -0,0 +1,63 @@
+/**
+ * openclaw-superpack: Last-built system prompt per agent
+ *
+ * Backs the dump_system_prompt_diff flag. Keeps the most recent prompt for
+ * each agentId + promptMode in memory, and mirrors it to
+ * <state dir>/superpack/prompts/ so the first build after a restart can
+ * still be diffed against the last one before it.
+ *
+ * Prompts carry secrets (owner numbers, keys pasted into AGENTS.md), so
+ * the files hold the redacted prompt (see redact.ts) and are readable by
+ * the owner only. A baseline read back from disk is therefore redacted too;
+ * it counts as unchanged when the new prompt redacts to the same text.
+ *
+ * Persistence is best-effort: a read-only or missing state dir only costs
+ * the cross-restart baseline, never the prompt build.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { redact } from "../redact.js";
+import { superpackStateDir } from "../state-dir.js";
+
+const lastPrompts = new Map<string, string>();
+
+function historyFile(agentId: string, mode: string): string {
+  const safe = (s: string) => s.replace(/[^A-Za-z0-9_.-]/g, "_");
+  return path.join(superpackStateDir(), "prompts", `${safe(agentId)}.${safe(mode)}.txt`);
+}
+
+/**
+ * Record `prompt` as the latest for agentId + mode and return the one it
+ * replaces, or undefined if there is no earlier prompt in memory or on disk.
+ */
+export function swapLastPrompt(agentId: string, mode: string, prompt: string): string | undefined {
+  const key = `${agentId}\0${mode}`;
+  const file = historyFile(agentId, mode);
+
+  let previous = lastPrompts.get(key);
+  if (previous === undefined) {
+    try {
+      previous = readFileSync(file, "utf-8");
+      if (previous === redact(prompt)) previous = prompt;
+    } catch {
+      // no baseline yet
+    }
+  }
+
+  lastPrompts.set(key, prompt);
+  if (previous !== prompt) {
+    try {
+      mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+      writeFileSync(file, redact(prompt), { mode: 0o600 });
+    } catch {
+      // best-effort
+    }
+  }
+  return previous;
+}
+
+/** Forget in-memory prompts (for testing). Files on disk are left alone. */
+export function resetPromptHistory(): void {
+  lastPrompts.clear();
+}
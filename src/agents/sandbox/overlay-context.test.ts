@@ -0,0 +1,80 @@
+/**
+ * Tests for overlay sandbox/context.ts — verifies sandbox_workspace_ready
+ * fires inside the single workdir layout pass, after the bootstrap files and
+ * skills are in place and before the container starts.
+ *
+ * context.ts imports many upstream modules that only exist in the
+ * openclaw-git tree, so we verify the source content statically. How
+ * isNewWorkspace is worked out is tested in workspace-ready.test.ts.
+ */
+
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+
+const contextSrc = readFileSync(path.join(__dirname, "context.ts"), "utf-8");
+
+describe("overlay sandbox/context.ts — sandbox_workspace_ready (static analysis)", () => {
+  it("exists and is non-empty", () => {
+    expect(contextSrc.length).toBeGreaterThan(100);
+  });
+
+  it("imports getGlobalHookRunner from hook-runner-global", () => {
+    expect(contextSrc).toContain("getGlobalHookRunner");
+    expect(contextSrc).toContain("hook-runner-global");
+  });
+
+  it("calls runSandboxWorkspaceReady only when the hook has handlers", () => {
+    expect(contextSrc).toContain("runSandboxWorkspaceReady");
+    expect(contextSrc).toContain('hasHooks("sandbox_workspace_ready")');
+  });
+
+  it("fires the hook inside the layout, after workspace setup and skill sync", () => {
+    const layout = contextSrc.slice(
+      contextSrc.indexOf("async function ensureSandboxWorkspaceLayout("),
+      contextSrc.indexOf("export async function resolveSandboxDockerUser("),
+    );
+    const ensureIdx = layout.indexOf("ensureSandboxWorkspace(");
+    const syncIdx = layout.indexOf("syncSkillsToWorkspace(");
+    const hookIdx = layout.indexOf("runSandboxWorkspaceReady(");
+    expect(ensureIdx).toBeGreaterThan(-1);
+    expect(syncIdx).toBeGreaterThan(ensureIdx);
+    expect(hookIdx).toBeGreaterThan(syncIdx);
+  });
+
+  it("lays the workdir out once before starting the container", () => {
+    const resolveBody = contextSrc.slice(
+      contextSrc.indexOf("export async function resolveSandboxContext("),
+      contextSrc.indexOf("export async function ensureSandboxWorkspaceForSession("),
+    );
+    const layoutIdx = resolveBody.indexOf("await ensureSandboxWorkspaceLayout(");
+    const containerIdx = resolveBody.indexOf("ensureSandboxContainer(");
+    expect(layoutIdx).toBeGreaterThan(-1);
+    expect(containerIdx).toBeGreaterThan(layoutIdx);
+    expect(resolveBody.match(/ensureSandboxWorkspaceLayout\(/g)).toHaveLength(1);
+  });
+
+  it("takes isNewWorkspace from whether the workdir existed before the layout", () => {
+    expect(contextSrc).toContain("const isNewWorkspace = await layOutSandboxWorkspace(workspaceDir,");
+    expect(contextSrc).not.toContain("birthtime");
+  });
+
+  it("wraps the hook call in try/catch so sandbox creation never fails on it", () => {
+    const hookIdx = contextSrc.indexOf("runSandboxWorkspaceReady(");
+    const before = contextSrc.slice(Math.max(0, hookIdx - 200), hookIdx);
+    expect(before).toContain("try {");
+    expect(contextSrc.slice(hookIdx)).toContain("} catch {");
+  });
+
+  it("passes the full event", () => {
+    for (const field of ["workspaceDir,", "agentWorkspaceDir,", "agentId,", "sessionKey:", "scopeKey,", "isNewWorkspace,"]) {
+      expect(contextSrc).toContain(field);
+    }
+  });
+
+  it("preserves upstream exports", () => {
+    expect(contextSrc).toContain("export async function resolveSandboxContext(");
+    expect(contextSrc).toContain("export async function ensureSandboxWorkspaceForSession(");
+    expect(contextSrc).toContain("export async function resolveSandboxDockerUser(");
+  });
+});
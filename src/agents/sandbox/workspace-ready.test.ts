@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync } from "node:fs";
+import { mkdir } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { layOutSandboxWorkspace } from "./workspace-ready.js";
+
+describe("layOutSandboxWorkspace", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(os.tmpdir(), "superpack-sandbox-"));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("reports a workdir the layout created as new", async () => {
+    const dir = path.join(root, "agent-abc");
+    const layOut = async () => {
+      await mkdir(dir, { recursive: true });
+    };
+    expect(await layOutSandboxWorkspace(dir, layOut)).toBe(true);
+    expect(await layOutSandboxWorkspace(dir, layOut)).toBe(false);
+  });
+
+  it("reports a workdir that already existed as not new", async () => {
+    const dir = path.join(root, "shared");
+    mkdirSync(dir);
+    expect(await layOutSandboxWorkspace(dir, async () => {})).toBe(false);
+  });
+
+  it("passes layout errors on", async () => {
+    await expect(
+      layOutSandboxWorkspace(path.join(root, "x"), async () => {
+        throw new Error("EACCES");
+      }),
+    ).rejects.toThrow("EACCES");
+  });
+});
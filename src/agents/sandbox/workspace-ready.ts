@@ -0,0 +1,26 @@
+/**
+ * openclaw-superpack: isNewWorkspace for sandbox_workspace_ready
+ *
+ * Used by the overlay sandbox/context.ts. A workdir is new when it did not
+ * exist before the layout pass that is about to run. That is checked up
+ * front: the directory's own timestamps come from a coarser clock than
+ * Date.now(), and some filesystems don't record a birth time at all.
+ */
+
+import { access } from "node:fs/promises";
+
+async function exists(dir: string): Promise<boolean> {
+  try {
+    await access(dir);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Run `layOut` for `workspaceDir`; resolves to whether the dir is new. */
+export async function layOutSandboxWorkspace(workspaceDir: string, layOut: () => Promise<void>): Promise<boolean> {
+  const existed = await exists(workspaceDir);
+  await layOut();
+  return !existed;
+}
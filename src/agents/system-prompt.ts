@@ -3,9 +3,14 @@
  *
  * Replaces src/agents/system-prompt.ts from upstream openclaw.
  * Must export: buildAgentSystemPrompt, buildRuntimeLine, PromptMode
+ * (declared in superpack.overlays.json and checked against upstream at build time)
  *
  * buildRuntimeLine is upstream-compatible and kept as-is.
  * buildAgentSystemPrompt is yours — edit freely.
+ *
+ * Diagnostics use the shared ../flags.js and ../diag.js like every other
+ * overlay; the overlay plugin resolves those superpack-only imports to this
+ * checkout at build time.
  */
 
 import type { ReasoningLevel, ThinkLevel } from "../auto-reply/thinking.js";
@@ -13,54 +18,13 @@ import type { MemoryCitationsMode } from "../config/types.memory.js";
 import type { ResolvedTimeFormat } from "./date-time.js";
 import type { EmbeddedContextFile } from "./pi-embedded-helpers.js";
 import type { EmbeddedSandboxInfo } from "./pi-embedded-runner/types.js";
+import { diag, diagDiff, diagDump, diagList } from "../diag.js";
+import { flag } from "../flags.js";
+import { addSensitiveValues } from "../redact.js";
+import { swapLastPrompt } from "./prompt-history.js";
 
 export type PromptMode = "full" | "minimal" | "none";
 
-// ---------------------------------------------------------------------------
-// Superpack feature flags — inline to avoid import path issues in overlay
-// ---------------------------------------------------------------------------
-
-function superpackFlag(name: string): boolean {
-  const env = process.env.SUPERPACK_FLAGS?.trim();
-  if (env && env.split(",").map((s) => s.trim()).includes(name)) return true;
-  const preset = process.env.SUPERPACK_PRESET?.trim();
-  if (preset === "debug_all") return true;
-  if (preset === "debug_prompts") {
-    return [
-      "dump_system_prompt",
-      "dump_system_prompt_diff",
-      "dump_bootstrap_files",
-      "dump_skills_resolution",
-      "dump_subagent_prompt",
-    ].includes(name);
-  }
-  return false;
-}
-
-function diagDump(label: string, title: string, content: string): void {
-  const lines = content.split("\n").length;
-  const bytes = Buffer.byteLength(content, "utf-8");
-  const ts = new Date().toISOString().slice(11, 23);
-  process.stderr.write(
-    `\x1b[90m${ts}\x1b[0m \x1b[36m\x1b[1m[superpack:${label}]\x1b[0m \x1b[32m▼ ${title}\x1b[0m \x1b[2m(${lines} lines, ${bytes} bytes)\x1b[0m\n`,
-  );
-  process.stderr.write(content);
-  if (!content.endsWith("\n")) process.stderr.write("\n");
-  process.stderr.write(
-    `\x1b[90m${ts}\x1b[0m \x1b[36m\x1b[1m[superpack:${label}]\x1b[0m \x1b[32m▲ end ${title}\x1b[0m\n`,
-  );
-}
-
-function diagList(label: string, title: string, items: string[]): void {
-  const ts = new Date().toISOString().slice(11, 23);
-  process.stderr.write(
-    `\x1b[90m${ts}\x1b[0m \x1b[36m\x1b[1m[superpack:${label}]\x1b[0m ${title} (${items.length}):\n`,
-  );
-  for (const item of items) {
-    process.stderr.write(`  \x1b[2m•\x1b[0m ${item}\n`);
-  }
-}
-
 // ---------------------------------------------------------------------------
 // buildRuntimeLine — upstream-compatible, do not change signature
 // ---------------------------------------------------------------------------
@@ -167,23 +131,27 @@ export function buildAgentSystemPrompt(params: {
     return "You are a personal assistant running inside OpenClaw.";
   }
 
+  // Owner numbers end up in the prompt; keep them out of diag output
+  addSensitiveValues(params.ownerNumbers ?? []);
+
   // --- Diagnostics: tool resolution ---
-  if (superpackFlag("dump_tool_resolution")) {
+  if (flag("dump_tool_resolution", { agentId })) {
     const tools = params.toolNames ?? [];
     const summaries = params.toolSummaries ?? {};
-    diagList("tools", `Tool resolution for agent=${agentId}`, [
+    diagList({ flag: "dump_tool_resolution", agentId }, "tools", `Tool resolution for agent=${agentId}`, [
       ...tools.map((t) => `${t}${summaries[t] ? ` — ${summaries[t]}` : ""}`),
       ...(tools.length === 0 ? ["(no tools)"] : []),
     ]);
   }
 
   // --- Diagnostics: skills resolution ---
-  if (superpackFlag("dump_skills_resolution")) {
+  if (flag("dump_skills_resolution", { agentId })) {
+    const f = { flag: "dump_skills_resolution", agentId } as const;
     const skills = params.skillsPrompt?.trim();
     if (skills) {
-      diagDump("skills", `Skills for agent=${agentId}`, skills);
+      diagDump(f, "skills", `Skills for agent=${agentId}`, skills);
     } else {
-      diagList("skills", `Skills for agent=${agentId}`, ["(none)"]);
+      diagList(f, "skills", `Skills for agent=${agentId}`, ["(none)"]);
     }
   }
 
@@ -239,8 +207,23 @@ export function buildAgentSystemPrompt(params: {
   const result = lines.filter((l) => l !== undefined).join("\n");
 
   // --- Diagnostics: full prompt dump ---
-  if (superpackFlag("dump_system_prompt")) {
-    diagDump("prompt", `System prompt for agent=${agentId} mode=${promptMode}`, result);
+  diagDump(
+    { flag: "dump_system_prompt", agentId },
+    "prompt",
+    `System prompt for agent=${agentId} mode=${promptMode}`,
+    result,
+  );
+
+  // --- Diagnostics: diff against the last prompt built for this agent/mode ---
+  if (flag("dump_system_prompt_diff", { agentId })) {
+    const title = `System prompt for agent=${agentId} mode=${promptMode}`;
+    const f = { flag: "dump_system_prompt_diff", agentId } as const;
+    const previous = swapLastPrompt(agentId, promptMode, result);
+    if (previous === undefined) {
+      diag(f, "prompt", `${title}: no earlier prompt, recorded as baseline`);
+    } else if (previous !== result) {
+      diagDiff(f, "prompt", title, previous, result);
+    }
   }
 
   return result;
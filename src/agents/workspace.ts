@@ -402,7 +402,7 @@ export async function ensureAgentWorkspace(params?: {
       if (beforeResult) {
         if (beforeResult.skip) {
           skipBootstrap = true;
-        } else {
+        } else if (beforeResult.files) {
           // Rebuild templateFiles from hook result, preserving path mappings
           const pathMap: Record<string, string> = {};
           for (const f of templateFiles) pathMap[f.name] = f.path;
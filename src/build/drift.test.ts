@@ -0,0 +1,152 @@
+/**
+ * Tests for overlay drift detection — hunk parsing, overlap detection, and
+ * the end-to-end check against a throwaway upstream git repo.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  checkDrift,
+  formatDriftReport,
+  overlappingHunks,
+  parseHunks,
+  upstreamBlobHash,
+} from "./drift.js";
+
+describe("parseHunks", () => {
+  it("parses zero-context hunk headers and counts lines", () => {
+    const diff = [
+      "diff --git a/base b/ours",
+      "--- a/base",
+      "+++ b/ours",
+      "@@ -3,2 +3,3 @@",
+      "-old a",
+      "-old b",
+      "+new a",
+      "+new b",
+      "+new c",
+      "@@ -10,0 +12 @@",
+      "+inserted",
+    ].join("\n");
+    expect(parseHunks(diff)).toEqual([
+      { oldStart: 3, oldLines: 2, added: 3, removed: 2 },
+      { oldStart: 10, oldLines: 0, added: 1, removed: 0 },
+    ]);
+  });
+
+  it("defaults the line count to 1 when omitted", () => {
+    expect(parseHunks("@@ -7 +7 @@\n-a\n+b")).toEqual([
+      { oldStart: 7, oldLines: 1, added: 1, removed: 1 },
+    ]);
+  });
+});
+
+describe("overlappingHunks", () => {
+  it("flags upstream hunks that intersect overlay hunks", () => {
+    const upstream = [
+      { oldStart: 5, oldLines: 3, added: 1, removed: 3 },
+      { oldStart: 50, oldLines: 1, added: 1, removed: 1 },
+    ];
+    const overlay = [{ oldStart: 7, oldLines: 2, added: 4, removed: 2 }];
+    expect(overlappingHunks(upstream, overlay)).toEqual([upstream[0]]);
+  });
+
+  it("treats insertions as touching the line they follow", () => {
+    const upstream = [{ oldStart: 10, oldLines: 0, added: 2, removed: 0 }];
+    const overlay = [{ oldStart: 11, oldLines: 1, added: 1, removed: 1 }];
+    expect(overlappingHunks(upstream, overlay)).toHaveLength(1);
+  });
+});
+
+describe("checkDrift", () => {
+  let upstreamDir: string;
+  let overlayDir: string;
+  const rel = "src/plugins/hooks.ts";
+
+  const git = (...args: string[]) =>
+    execFileSync("git", args, { cwd: upstreamDir, encoding: "utf-8" });
+
+  const lines = (n: number, tag = "line") =>
+    Array.from({ length: n }, (_, i) => `${tag} ${i + 1}`).join("\n") + "\n";
+
+  beforeEach(() => {
+    upstreamDir = mkdtempSync(path.join(os.tmpdir(), "superpack-upstream-"));
+    overlayDir = mkdtempSync(path.join(os.tmpdir(), "superpack-overlay-"));
+    git("init", "-q");
+    git("config", "user.email", "test@example.com");
+    git("config", "user.name", "test");
+    mkdirSync(path.join(upstreamDir, "src/plugins"), { recursive: true });
+    writeFileSync(path.join(upstreamDir, rel), lines(20));
+    git("add", "-A");
+    git("commit", "-q", "-m", "base");
+
+    mkdirSync(path.join(overlayDir, "src/plugins"), { recursive: true });
+    const ours = lines(20).replace("line 5\n", "line 5\nsuperpack addition\n");
+    writeFileSync(path.join(overlayDir, rel), ours);
+  });
+
+  afterEach(() => {
+    rmSync(upstreamDir, { recursive: true, force: true });
+    rmSync(overlayDir, { recursive: true, force: true });
+  });
+
+  const overlays = (pinnedBlob?: string) => [
+    { rel, overlayPath: path.join(overlayDir, rel), pinnedBlob },
+  ];
+
+  it("reports unpinned overlays when no hash is pinned", () => {
+    const [report] = checkDrift({ upstreamDir, overlays: overlays() });
+    expect(report.status).toBe("unpinned");
+    expect(report.currentBlob).toBe(upstreamBlobHash(upstreamDir, rel));
+  });
+
+  it("reports clean when upstream matches the pinned blob", () => {
+    const blob = upstreamBlobHash(upstreamDir, rel)!;
+    const [report] = checkDrift({ upstreamDir, overlays: overlays(blob) });
+    expect(report.status).toBe("clean");
+  });
+
+  it("reports missing when the upstream file is gone", () => {
+    rmSync(path.join(upstreamDir, rel));
+    const [report] = checkDrift({ upstreamDir, overlays: overlays("deadbeef") });
+    expect(report.status).toBe("missing");
+  });
+
+  it("summarizes upstream vs overlay changes when upstream drifts", () => {
+    const blob = upstreamBlobHash(upstreamDir, rel)!;
+    // Upstream edits line 6 (right next to our insertion) and line 18
+    const theirs = lines(20).replace("line 6\n", "line six\n").replace("line 18\n", "line eighteen\n");
+    writeFileSync(path.join(upstreamDir, rel), theirs);
+    git("commit", "-q", "-am", "upstream change");
+
+    const [report] = checkDrift({ upstreamDir, overlays: overlays(blob) });
+    expect(report.status).toBe("drifted");
+    expect(report.summary?.upstream).toHaveLength(2);
+    expect(report.summary?.overlay).toHaveLength(1);
+    expect(report.summary?.conflicts.map((h) => h.oldStart)).toEqual([6]);
+
+    const text = formatDriftReport(report).join("\n");
+    expect(text).toContain("upstream changed since reconcile");
+    expect(text).toContain("upstream: +2 -2 in 2 hunks");
+    expect(text).toContain("overlay:  +1 -0 in 1 hunk vs base");
+    expect(text).toContain("base lines 6");
+  });
+
+  it("skips the overlay diff for patch overlays", () => {
+    const blob = upstreamBlobHash(upstreamDir, rel)!;
+    writeFileSync(path.join(upstreamDir, rel), lines(20).replace("line 6\n", "line six\n"));
+    git("commit", "-q", "-am", "upstream change");
+
+    const [report] = checkDrift({
+      upstreamDir,
+      overlays: [{ rel, overlayPath: path.join(overlayDir, rel), pinnedBlob: blob, kind: "patch" }],
+    });
+    expect(report.status).toBe("drifted");
+    expect(report.summary?.upstream).toHaveLength(1);
+    expect(report.summary?.overlay).toEqual([]);
+    expect(formatDriftReport(report).join("\n")).toContain("overlay:  patch");
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * openclaw-superpack: Overlay drift detection
+ *
+ * Every overlay is a copy of an upstream file plus our changes. The manifest
+ * pins the upstream git blob each overlay was last reconciled against, so
+ * the build can tell when upstream moved underneath us and what changed.
+ *
+ * Patch overlays (see overlay-plugin.ts) are not copies, so there is no
+ * overlay-vs-base diff for them; drift only reports what changed upstream.
+ *
+ * Hashes are git blob ids of the upstream working tree file (`git hash-object`),
+ * so uncommitted upstream edits count as drift too.
+ */
+
+import { spawnSync } from "node:child_process";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { OverlayKind } from "./manifest.js";
+
+// ---------------------------------------------------------------------------
+// Git helpers
+// ---------------------------------------------------------------------------
+
+function git(cwd: string, args: string[]): { status: number; stdout: string } {
+  const res = spawnSync("git", args, { cwd, encoding: "utf-8", maxBuffer: 64 * 1024 * 1024 });
+  return { status: res.status ?? 1, stdout: res.stdout ?? "" };
+}
+
+/** Blob hash of the upstream working tree file, or undefined if it does not exist. */
+export function upstreamBlobHash(upstreamDir: string, relPath: string): string | undefined {
+  if (!existsSync(path.join(upstreamDir, relPath))) return undefined;
+  const res = git(upstreamDir, ["hash-object", "--", relPath]);
+  return res.status === 0 ? res.stdout.trim() : undefined;
+}
+
+export function upstreamHead(upstreamDir: string): string | undefined {
+  const res = git(upstreamDir, ["rev-parse", "HEAD"]);
+  return res.status === 0 ? res.stdout.trim() : undefined;
+}
+
+function readBlob(upstreamDir: string, blob: string): string | undefined {
+  const res = git(upstreamDir, ["cat-file", "blob", blob]);
+  return res.status === 0 ? res.stdout : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Diff summaries
+// ---------------------------------------------------------------------------
+
+export type Hunk = {
+  /** First line of the hunk in the old file (1-based) */
+  oldStart: number;
+  oldLines: number;
+  added: number;
+  removed: number;
+};
+
+/**
+ * Parse `git diff -U0` output into hunks. With zero context, every `@@` block
+ * is exactly the changed range, which is what overlap detection needs.
+ */
+export function parseHunks(diff: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | undefined;
+  for (const line of diff.split("\n")) {
+    const header = /^@@ -(\d+)(?:,(\d+))? \+\d+(?:,\d+)? @@/.exec(line);
+    if (header) {
+      current = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        added: 0,
+        removed: 0,
+      };
+      hunks.push(current);
+      continue;
+    }
+    if (!current) continue;
+    if (line.startsWith("+")) current.added++;
+    else if (line.startsWith("-")) current.removed++;
+  }
+  return hunks;
+}
+
+/** Old-file line range touched by a hunk; pure insertions occupy the line they follow. */
+function hunkRange(h: Hunk): [number, number] {
+  if (h.oldLines === 0) return [h.oldStart, h.oldStart + 1];
+  return [h.oldStart, h.oldStart + h.oldLines - 1];
+}
+
+/** Upstream hunks whose base range intersects any overlay hunk. */
+export function overlappingHunks(upstream: Hunk[], overlay: Hunk[]): Hunk[] {
+  return upstream.filter((u) => {
+    const [uStart, uEnd] = hunkRange(u);
+    return overlay.some((o) => {
+      const [oStart, oEnd] = hunkRange(o);
+      return uStart <= oEnd && oStart <= uEnd;
+    });
+  });
+}
+
+function diffFiles(a: string, b: string): Hunk[] {
+  const res = spawnSync("git", ["diff", "--no-index", "--no-color", "-U0", "--", a, b], {
+    encoding: "utf-8",
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  // --no-index exits 1 when the files differ
+  if (res.status !== 0 && res.status !== 1) return [];
+  return parseHunks(res.stdout ?? "");
+}
+
+export type ThreeWaySummary = {
+  upstream: Hunk[];
+  overlay: Hunk[];
+  conflicts: Hunk[];
+};
+
+/**
+ * Compare base (last reconciled upstream) against current upstream and
+ * against the overlay. Returns undefined if the base blob is not in the
+ * upstream object store (e.g. shallow clone or rewritten history).
+ * Without an overlayPath only the upstream side is diffed.
+ */
+export function threeWaySummary(params: {
+  upstreamDir: string;
+  baseBlob: string;
+  upstreamPath: string;
+  overlayPath?: string;
+}): ThreeWaySummary | undefined {
+  const base = readBlob(params.upstreamDir, params.baseBlob);
+  if (base === undefined) return undefined;
+  const tmp = mkdtempSync(path.join(os.tmpdir(), "superpack-drift-"));
+  try {
+    const basePath = path.join(tmp, "base");
+    writeFileSync(basePath, base);
+    const upstream = diffFiles(basePath, params.upstreamPath);
+    const overlay = params.overlayPath ? diffFiles(basePath, params.overlayPath) : [];
+    return { upstream, overlay, conflicts: overlappingHunks(upstream, overlay) };
+  } finally {
+    rmSync(tmp, { recursive: true, force: true });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Drift check
+// ---------------------------------------------------------------------------
+
+export type DriftStatus = "clean" | "drifted" | "unpinned" | "missing";
+
+export type DriftReport = {
+  /** Upstream-relative path of the shadowed file */
+  rel: string;
+  status: DriftStatus;
+  kind?: OverlayKind;
+  pinnedBlob?: string;
+  currentBlob?: string;
+  summary?: ThreeWaySummary;
+};
+
+export function checkDrift(params: {
+  upstreamDir: string;
+  overlays: Array<{ rel: string; overlayPath: string; pinnedBlob?: string; kind?: OverlayKind }>;
+}): DriftReport[] {
+  return params.overlays.map(({ rel, overlayPath, pinnedBlob, kind }) => {
+    const currentBlob = upstreamBlobHash(params.upstreamDir, rel);
+    if (!currentBlob) return { rel, status: "missing", pinnedBlob };
+    if (!pinnedBlob) return { rel, status: "unpinned", currentBlob };
+    if (pinnedBlob === currentBlob) return { rel, status: "clean", pinnedBlob, currentBlob };
+    const summary = threeWaySummary({
+      upstreamDir: params.upstreamDir,
+      baseBlob: pinnedBlob,
+      upstreamPath: path.join(params.upstreamDir, rel),
+      overlayPath: kind === "patch" ? undefined : overlayPath,
+    });
+    return { rel, status: "drifted", kind, pinnedBlob, currentBlob, summary };
+  });
+}
+
+function countLines(hunks: Hunk[]): string {
+  const added = hunks.reduce((n, h) => n + h.added, 0);
+  const removed = hunks.reduce((n, h) => n + h.removed, 0);
+  return `+${added} -${removed} in ${hunks.length} hunk${hunks.length === 1 ? "" : "s"}`;
+}
+
+/** Human-readable lines for one drift report (no trailing newline). */
+export function formatDriftReport(report: DriftReport): string[] {
+  const short = (h?: string) => h?.slice(0, 8) ?? "?";
+  switch (report.status) {
+    case "clean":
+      return [`  ✓ ${report.rel} (upstream ${short(report.currentBlob)})`];
+    case "unpinned":
+      return [`  ? ${report.rel} — not reconciled yet (upstream ${short(report.currentBlob)})`];
+    case "missing":
+      return [`  ✖ ${report.rel} — no longer exists upstream`];
+    case "drifted": {
+      const lines = [
+        `  ✖ ${report.rel} — upstream changed since reconcile (${short(report.pinnedBlob)} → ${short(report.currentBlob)})`,
+      ];
+      const s = report.summary;
+      if (!s) {
+        lines.push(`      base blob ${short(report.pinnedBlob)} not found upstream; diff unavailable`);
+        return lines;
+      }
+      lines.push(`      upstream: ${countLines(s.upstream)} since reconcile`);
+      if (report.kind === "patch") {
+        lines.push("      overlay:  patch — check the upstream exports it wraps still behave the same");
+        return lines;
+      }
+      lines.push(`      overlay:  ${countLines(s.overlay)} vs base`);
+      if (s.conflicts.length === 0) {
+        lines.push("      overlap:  none — upstream changes should absorb cleanly");
+      } else {
+        const ranges = s.conflicts
+          .map((h) => {
+            const [start, end] = hunkRange(h);
+            return start === end ? `${start}` : `${start}-${end}`;
+          })
+          .join(", ");
+        lines.push(`      overlap:  ${s.conflicts.length} upstream hunk(s) touch overlay edits (base lines ${ranges})`);
+      }
+      return lines;
+    }
+  }
+}
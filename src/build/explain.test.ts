@@ -0,0 +1,119 @@
+/**
+ * Tests for the overlay resolve explanation, using a throwaway upstream tree
+ * and overlay tree on disk.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { explainOverlayResolution, formatExplanation, type ExplainEntry } from "./explain.js";
+
+describe("explainOverlayResolution", () => {
+  let upstreamDir: string;
+  let overlayDir: string;
+  let entries: ExplainEntry[];
+
+  const write = (root: string, rel: string, content: string) => {
+    mkdirSync(path.dirname(path.join(root, rel)), { recursive: true });
+    writeFileSync(path.join(root, rel), content);
+  };
+
+  const find = (specifier: string) => entries.find((e) => e.specifier === specifier);
+
+  beforeAll(() => {
+    upstreamDir = mkdtempSync(path.join(os.tmpdir(), "superpack-explain-up-"));
+    overlayDir = mkdtempSync(path.join(os.tmpdir(), "superpack-explain-ov-"));
+
+    write(upstreamDir, "src/plugins/hooks.ts", 'import { x } from "./config.js";\nimport "../tools";\n');
+    write(upstreamDir, "src/plugins/config.ts", "export const x = 1;\n");
+    write(upstreamDir, "src/tools/index.ts", "export {};\n");
+    write(
+      upstreamDir,
+      "src/loader.ts",
+      [
+        'import "./plugins/hooks.js";',
+        'import "./plugins/hooks";',
+        'import "./plugins/hooks.mjs";',
+        'import "./tools";',
+        'import "./plugins/config.js";',
+      ].join("\n"),
+    );
+    // Ignored: dependencies are not part of the upstream source tree
+    write(upstreamDir, "node_modules/dep/index.ts", 'import "../../src/plugins/hooks.js";\n');
+
+    write(
+      overlayDir,
+      "src/plugins/hooks.ts",
+      ['import { x } from "./config.js";', 'import "upstream:./hooks.js";'].join("\n"),
+    );
+    write(overlayDir, "src/tools/index.ts", "export {};\n");
+
+    entries = explainOverlayResolution({
+      upstreamDir,
+      layers: [overlayDir],
+      overlays: [
+        {
+          upstreamPath: path.join(upstreamDir, "src/plugins/hooks.ts"),
+          overlayPath: path.join(overlayDir, "src/plugins/hooks.ts"),
+          kind: "patch",
+        },
+        {
+          upstreamPath: path.join(upstreamDir, "src/tools/index.ts"),
+          overlayPath: path.join(overlayDir, "src/tools/index.ts"),
+        },
+      ],
+    });
+  });
+
+  afterAll(() => {
+    rmSync(upstreamDir, { recursive: true, force: true });
+    rmSync(overlayDir, { recursive: true, force: true });
+  });
+
+  it("reports alias redirects with their rule", () => {
+    expect(find("./plugins/hooks.js")).toMatchObject({
+      kind: "redirect",
+      via: "alias",
+      target: path.join(overlayDir, "src/plugins/hooks.ts"),
+    });
+  });
+
+  it("reports the sibling fallback and upstream: from overlay files", () => {
+    const fromOverlay = entries.filter(
+      (e) => e.importer === path.join(overlayDir, "src/plugins/hooks.ts"),
+    );
+    expect(fromOverlay.map((e) => [e.specifier, e.kind === "redirect" && e.via])).toEqual([
+      ["./config.js", "sibling"],
+      ["upstream:./hooks.js", "upstream"],
+    ]);
+  });
+
+  it("flags extensionless, extension-mapped, and index imports as near misses", () => {
+    expect(find("./plugins/hooks")).toMatchObject({ kind: "near-miss", reason: "extensionless import" });
+    expect(find("./plugins/hooks.mjs")).toMatchObject({
+      kind: "near-miss",
+      reason: "extension mapping (.mjs → .ts)",
+    });
+    expect(find("./tools")).toMatchObject({ kind: "near-miss", reason: "index-file resolution" });
+  });
+
+  it("omits imports left to the default resolver and skips node_modules", () => {
+    expect(entries.filter((e) => e.specifier === "./plugins/config.js")).toEqual([]);
+    expect(entries.some((e) => e.importer.includes("node_modules"))).toBe(false);
+  });
+
+  it("scans the upstream original of a patch overlay", () => {
+    const upstreamHooks = path.join(upstreamDir, "src/plugins/hooks.ts");
+    expect(entries.filter((e) => e.importer === upstreamHooks).map((e) => e.specifier)).toEqual([
+      "../tools",
+    ]);
+  });
+
+  it("formats redirects and near misses", () => {
+    const text = formatExplanation(entries, { upstreamDir, layers: [overlayDir] }).join("\n");
+    expect(text).toContain('src/loader.ts: "./plugins/hooks.js" → overlay:src/plugins/hooks.ts [alias]');
+    expect(text).toContain('✖ src/loader.ts: "./tools" → src/tools/index.ts NOT redirected (index-file resolution)');
+    expect(text).toContain("3 redirect(s), 4 near misses");
+  });
+});
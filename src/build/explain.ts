@@ -0,0 +1,144 @@
+/**
+ * openclaw-superpack: Overlay resolve explanation (build.ts --dry-run --explain)
+ *
+ * Scans the upstream tree and the overlay files for imports and runs each one
+ * through the same resolver the superpack-overlay plugin uses, so redirects
+ * can be inspected without bundling anything.
+ *
+ * It also flags near misses: imports that point at a shadowed module but
+ * that the plugin does not redirect, because the specifier only reaches the
+ * file through extension probing (`./hooks`, `./hooks.mjs`) or index-file
+ * resolution (`./plugins` → plugins/index.ts). The default resolver then
+ * bundles the upstream file and the overlay silently does not apply.
+ *
+ * This is a static scan: it covers every file on disk, not just the ones
+ * reachable from the tsdown entries.
+ */
+
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import ts from "typescript";
+import { layerLabel, type OverlayKind } from "./manifest.js";
+import {
+  createOverlayResolver,
+  layerIndex,
+  overlayAliases,
+  upstreamCounterpart,
+  type OverlayResolution,
+} from "./overlay-plugin.js";
+
+export type ExplainEntry =
+  | ({ kind: "redirect"; importer: string; specifier: string } & OverlayResolution)
+  | { kind: "near-miss"; importer: string; specifier: string; shadowed: string; reason: string };
+
+const SOURCE_EXT = /\.(ts|tsx|mts|cts)$/;
+const SKIP_DIRS = new Set(["node_modules", ".git", "dist"]);
+
+function walkSources(dir: string, out: string[] = []): string[] {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      if (!SKIP_DIRS.has(entry.name)) walkSources(path.join(dir, entry.name), out);
+    } else if (SOURCE_EXT.test(entry.name) && !entry.name.endsWith(".d.ts")) {
+      out.push(path.join(dir, entry.name));
+    }
+  }
+  return out;
+}
+
+function importSpecifiers(file: string): string[] {
+  const info = ts.preProcessFile(readFileSync(file, "utf-8"), true, true);
+  return info.importedFiles.map((f) => f.fileName);
+}
+
+/**
+ * Paths the default resolver may reach for a relative specifier that the
+ * plugin's exact-path match does not cover, with the reason for each.
+ */
+function probeCandidates(base: string): Array<{ candidate: string; reason: string }> {
+  const ext = path.extname(base);
+  const stem = ext ? base.slice(0, -ext.length) : base;
+  const candidates = [{ candidate: path.join(base, "index.ts"), reason: "index-file resolution" }];
+  if (!ext) {
+    candidates.push({ candidate: `${base}.ts`, reason: "extensionless import" });
+  } else if (ext !== ".ts" && ext !== ".js") {
+    candidates.push({ candidate: `${stem}.ts`, reason: `extension mapping (${ext} → .ts)` });
+  }
+  return candidates;
+}
+
+/**
+ * Explain how every import in the upstream tree and the overlay files would
+ * resolve. Imports left to the default resolver are omitted unless they
+ * are near misses.
+ */
+export function explainOverlayResolution(params: {
+  upstreamDir: string;
+  /** Overlay layer directories, topmost first */
+  layers: string[];
+  overlays: Array<{ upstreamPath: string; overlayPath: string; kind?: OverlayKind; below?: string[] }>;
+}): ExplainEntry[] {
+  const dirs = { upstreamDir: params.upstreamDir, layers: params.layers };
+  const resolve = createOverlayResolver({ ...dirs, aliases: overlayAliases(params.overlays) });
+  const shadowed = new Set(params.overlays.map((o) => o.upstreamPath));
+  // Replaced upstream files never make it into the bundle; patched ones do
+  const replaced = new Set(
+    params.overlays.filter((o) => o.kind !== "patch").map((o) => o.upstreamPath),
+  );
+
+  const importers = [
+    ...walkSources(params.upstreamDir).filter((f) => !replaced.has(f)),
+    ...new Set(params.overlays.flatMap((o) => [o.overlayPath, ...(o.below ?? [])])),
+  ];
+
+  const entries: ExplainEntry[] = [];
+  for (const importer of importers) {
+    for (const specifier of importSpecifiers(importer)) {
+      const resolution = resolve(specifier, importer);
+      if (resolution) {
+        entries.push({ kind: "redirect", importer, specifier, ...resolution });
+        continue;
+      }
+      if (!specifier.startsWith(".")) continue;
+      const from = upstreamCounterpart(importer, dirs) ?? importer;
+      const base = path.resolve(path.dirname(from), specifier);
+      const miss = probeCandidates(base).find((c) => shadowed.has(c.candidate));
+      if (miss) {
+        entries.push({
+          kind: "near-miss",
+          importer,
+          specifier,
+          shadowed: miss.candidate,
+          reason: miss.reason,
+        });
+      }
+    }
+  }
+  return entries;
+}
+
+/** Human-readable lines for an explanation (no trailing newline). */
+export function formatExplanation(
+  entries: ExplainEntry[],
+  dirs: { upstreamDir: string; layers: string[] },
+): string[] {
+  const show = (p: string) => {
+    const i = layerIndex(p, dirs.layers);
+    if (i < 0) return path.relative(dirs.upstreamDir, p);
+    const dir = dirs.layers[i];
+    return `${layerLabel(dir, dirs.layers)}:${path.relative(dir, p)}`;
+  };
+
+  const lines: string[] = [];
+  for (const e of entries) {
+    if (e.kind === "redirect") {
+      lines.push(`  ${show(e.importer)}: "${e.specifier}" → ${show(e.target)} [${e.via}]`);
+    } else {
+      lines.push(`  ✖ ${show(e.importer)}: "${e.specifier}" → ${show(e.shadowed)} NOT redirected (${e.reason})`);
+    }
+  }
+  const misses = entries.filter((e) => e.kind === "near-miss").length;
+  lines.push(
+    `  ${entries.length - misses} redirect(s), ${misses} near miss${misses === 1 ? "" : "es"}`,
+  );
+  return lines;
+}
@@ -0,0 +1,157 @@
+/**
+ * Tests for the overlay export-surface check, using a throwaway upstream
+ * tree and overlay tree on disk.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { checkExportSurface, formatExportReport, type ExportReport } from "./exports.js";
+
+describe("checkExportSurface", () => {
+  let upstreamDir: string;
+  let overlayDir: string;
+  let reports: Map<string, ExportReport>;
+
+  const write = (root: string, rel: string, content: string) => {
+    mkdirSync(path.dirname(path.join(root, rel)), { recursive: true });
+    writeFileSync(path.join(root, rel), content);
+  };
+
+  const overlay = (rel: string, exports: string[] = []) => ({
+    rel,
+    upstreamPath: path.join(upstreamDir, rel),
+    overlayPath: path.join(overlayDir, rel),
+    exports,
+  });
+
+  beforeAll(() => {
+    upstreamDir = mkdtempSync(path.join(os.tmpdir(), "superpack-exports-up-"));
+    overlayDir = mkdtempSync(path.join(os.tmpdir(), "superpack-exports-ov-"));
+
+    // Sibling that only exists upstream: overlay imports must resolve to it
+    write(upstreamDir, "src/dep.ts", "export type Options = { verbose?: boolean };\n");
+
+    write(
+      upstreamDir,
+      "src/compatible.ts",
+      [
+        'import type { Options } from "./dep.js";',
+        'export type Mode = "full" | "minimal";',
+        "export type Registration<K extends string = string> = { name: K; priority?: number };",
+        "export function build(opts: Options): string { return String(opts.verbose); }",
+        "export const VERSION = 1;",
+      ].join("\n"),
+    );
+    write(
+      overlayDir,
+      "src/compatible.ts",
+      [
+        'import type { Options } from "./dep.js";',
+        '// Widened union and a richer return type are fine',
+        'export type Mode = "full" | "minimal" | "none";',
+        "export type Registration<K extends string = string> = { name: K; priority?: number };",
+        'export function build(opts: Options): "true" | "false" { return opts.verbose ? "true" : "false"; }',
+        "export const VERSION = 2;",
+        "export function extra(): void {}",
+      ].join("\n"),
+    );
+
+    write(
+      upstreamDir,
+      "src/broken.ts",
+      [
+        'export type Mode = "full" | "minimal";',
+        "export function build(name: string): string { return name; }",
+        "export function runtimeLine(): string { return ''; }",
+        "export const Kind = 1;",
+      ].join("\n"),
+    );
+    write(
+      overlayDir,
+      "src/broken.ts",
+      [
+        '// Narrowed union, changed parameter type, dropped export, value became type',
+        'export type Mode = "full";',
+        "export function build(name: number): string { return String(name); }",
+        "export type Kind = number;",
+      ].join("\n"),
+    );
+
+    write(overlayDir, "src/new-only.ts", "export const present = 1;\n");
+
+    write(
+      upstreamDir,
+      "src/patched.ts",
+      [
+        "export function greet(name: string): string { return name; }",
+        "export const COUNT = 1;",
+      ].join("\n"),
+    );
+    write(
+      overlayDir,
+      "src/patched.ts",
+      [
+        '// Patch overlay: re-export the original and wrap one function',
+        'import * as upstream from "upstream:./patched.js";',
+        'export * from "upstream:./patched.js";',
+        'export function greet(name: string): string { return `${upstream.greet(name)}!`; }',
+      ].join("\n"),
+    );
+
+    const results = checkExportSurface({
+      upstreamDir,
+      layers: [overlayDir],
+      overlays: [
+        overlay("src/compatible.ts", ["build"]),
+        overlay("src/broken.ts"),
+        overlay("src/new-only.ts", ["present", "required"]),
+        overlay("src/patched.ts"),
+      ],
+    });
+    reports = new Map(results.map((r) => [r.rel, r]));
+  }, 30_000);
+
+  afterAll(() => {
+    rmSync(upstreamDir, { recursive: true, force: true });
+    rmSync(overlayDir, { recursive: true, force: true });
+  });
+
+  it("accepts widened types, narrower return values, and extra exports", () => {
+    const report = reports.get("src/compatible.ts")!;
+    expect(report.issues).toEqual([]);
+    expect(report.checked).toBe(4);
+  });
+
+  it("reports missing, incompatible, and kind-changed exports", () => {
+    const issues = reports.get("src/broken.ts")!.issues;
+    const byName = new Map(issues.map((i) => [i.name, i]));
+    expect(byName.get("runtimeLine")).toEqual({ kind: "missing", name: "runtimeLine" });
+    expect(byName.get("Mode")?.kind).toBe("incompatible");
+    expect(byName.get("build")?.kind).toBe("incompatible");
+    expect(byName.get("Kind")).toMatchObject({ kind: "kind-changed", upstream: "value", overlay: "type" });
+  });
+
+  it("checks declared exports even without an upstream file", () => {
+    const report = reports.get("src/new-only.ts")!;
+    expect(report.issues).toEqual([{ kind: "missing", name: "required" }]);
+  });
+
+  it("resolves upstream: imports in patch overlays to the original module", () => {
+    const report = reports.get("src/patched.ts")!;
+    expect(report.issues).toEqual([]);
+    expect(report.checked).toBe(2);
+  });
+
+  it("formats a readable report", () => {
+    const text = formatExportReport(reports.get("src/broken.ts")!).join("\n");
+    expect(text).toContain("✖ src/broken.ts");
+    expect(text).toContain("missing:      runtimeLine");
+    expect(text).toContain("upstream: (name: string) => string");
+    expect(text).toContain("overlay:  (name: number) => string");
+    expect(formatExportReport(reports.get("src/compatible.ts")!)).toEqual([
+      "  ✓ src/compatible.ts (4 exports)",
+    ]);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * openclaw-superpack: Overlay export-surface check
+ *
+ * An overlay replaces an upstream module wholesale, so every upstream importer
+ * now binds to our exports. If an overlay drops an export or changes its
+ * signature, nothing notices until the gateway crashes at runtime.
+ *
+ * This type-checks each overlay next to the upstream module it replaces and
+ * reports exports that are missing or no longer compatible:
+ *   - values (functions, consts): the overlay must be assignable to upstream,
+ *     so upstream callers still get what they expect
+ *   - types: upstream must be assignable to the overlay, so overlays may widen
+ *     (extra union members, extra optional fields) but not narrow
+ *
+ * Module resolution goes through the superpack-overlay resolver: overlay
+ * imports resolve against lower layers and the upstream directory, imports
+ * of other overlaid files land on their overlays, and `upstream:` specifiers
+ * in patch overlays reach the module they shadow.
+ */
+
+import path from "node:path";
+import ts from "typescript";
+import {
+  UPSTREAM_SPECIFIER,
+  createOverlayResolver,
+  overlayAliases,
+  upstreamCounterpart,
+} from "./overlay-plugin.js";
+
+export type ExportIssue =
+  | { kind: "missing"; name: string }
+  | { kind: "kind-changed"; name: string; upstream: string; overlay: string }
+  | { kind: "incompatible"; name: string; upstream: string; overlay: string };
+
+export type ExportReport = {
+  /** Upstream-relative path of the shadowed file */
+  rel: string;
+  /** Number of export names compared */
+  checked: number;
+  issues: ExportIssue[];
+};
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  allowImportingTsExtensions: true,
+  strict: true,
+  noEmit: true,
+  skipLibCheck: true,
+  types: [],
+};
+
+const PRINT_FLAGS =
+  ts.TypeFormatFlags.NoTruncation |
+  ts.TypeFormatFlags.InTypeAlias |
+  ts.TypeFormatFlags.UseAliasDefinedOutsideCurrentScope;
+
+type OverlayPaths = {
+  rel: string;
+  upstreamPath: string;
+  overlayPath: string;
+  exports: string[];
+  below?: string[];
+};
+
+/**
+ * Compiler host that resolves imports with the superpack-overlay resolver
+ * first, falling back to TypeScript resolution from the importer's upstream
+ * counterpart path (with overlaid results redirected).
+ */
+function createOverlayHost(dirs: {
+  upstreamDir: string;
+  layers: string[];
+  overlays: OverlayPaths[];
+}): ts.CompilerHost {
+  const host = ts.createCompilerHost(COMPILER_OPTIONS, true);
+  const resolve = createOverlayResolver({ ...dirs, aliases: overlayAliases(dirs.overlays) });
+  const byUpstream = new Map(dirs.overlays.map((o) => [o.upstreamPath, o.overlayPath]));
+  host.resolveModuleNameLiterals = (literals, containingFile, redirected, options) => {
+    const from = upstreamCounterpart(containingFile, dirs) ?? containingFile;
+    return literals.map((lit): ts.ResolvedModuleWithFailedLookupLocations => {
+      const target = resolve(lit.text, containingFile)?.target;
+      if (target && /\.tsx?$/.test(target) && host.fileExists(target)) {
+        const extension = target.endsWith(".tsx") ? ts.Extension.Tsx : ts.Extension.Ts;
+        return { resolvedModule: { resolvedFileName: target, extension } };
+      }
+      if (lit.text.startsWith(UPSTREAM_SPECIFIER)) return { resolvedModule: undefined };
+      const result = ts.resolveModuleName(lit.text, from, options, host, undefined, redirected);
+      const overlayPath = result.resolvedModule && byUpstream.get(result.resolvedModule.resolvedFileName);
+      if (!overlayPath) return result;
+      return { ...result, resolvedModule: { ...result.resolvedModule!, resolvedFileName: overlayPath } };
+    });
+  };
+  return host;
+}
+
+type ExportEntry = {
+  isValue: boolean;
+  type: ts.Type;
+  generic: boolean;
+  text: string;
+};
+
+function collectExports(checker: ts.TypeChecker, file: ts.SourceFile): Map<string, ExportEntry> {
+  const result = new Map<string, ExportEntry>();
+  const moduleSymbol = checker.getSymbolAtLocation(file);
+  if (!moduleSymbol) return result;
+  for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+    const symbol =
+      exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+    const isValue = (symbol.flags & ts.SymbolFlags.Value) !== 0;
+    // Widen `const X = 1` to number: the literal value is not part of the contract
+    const type = isValue
+      ? checker.getBaseTypeOfLiteralType(checker.getTypeOfSymbol(symbol))
+      : checker.getDeclaredTypeOfSymbol(symbol);
+    const generic = (symbol.declarations ?? []).some(
+      (d) =>
+        (ts.isTypeAliasDeclaration(d) || ts.isInterfaceDeclaration(d)) &&
+        (d.typeParameters?.length ?? 0) > 0,
+    );
+    result.set(exported.name, {
+      isValue,
+      type,
+      generic,
+      text: checker.typeToString(type, undefined, PRINT_FLAGS),
+    });
+  }
+  return result;
+}
+
+function compareEntries(
+  checker: ts.TypeChecker,
+  name: string,
+  upstream: ExportEntry,
+  overlay: ExportEntry,
+): ExportIssue | undefined {
+  if (upstream.isValue !== overlay.isValue) {
+    return {
+      kind: "kind-changed",
+      name,
+      upstream: upstream.isValue ? "value" : "type",
+      overlay: overlay.isValue ? "value" : "type",
+    };
+  }
+  // Generic declarations carry their own type parameters, which are never
+  // assignable to each other; fall back to comparing the printed shape.
+  const compatible = upstream.generic || overlay.generic
+    ? upstream.text === overlay.text
+    : upstream.isValue
+      ? checker.isTypeAssignableTo(overlay.type, upstream.type)
+      : checker.isTypeAssignableTo(upstream.type, overlay.type);
+  if (compatible) return undefined;
+  return { kind: "incompatible", name, upstream: upstream.text, overlay: overlay.text };
+}
+
+/**
+ * Compare every overlay's exports with the upstream module it replaces.
+ * Overlays whose upstream file is missing are only checked against their
+ * declared `exports` list (drift detection reports the missing file).
+ */
+export function checkExportSurface(params: {
+  upstreamDir: string;
+  /** Overlay layer directories, topmost first */
+  layers: string[];
+  overlays: OverlayPaths[];
+}): ExportReport[] {
+  const host = createOverlayHost(params);
+  const rootNames = params.overlays.flatMap((o) =>
+    host.fileExists(o.upstreamPath) ? [o.upstreamPath, o.overlayPath] : [o.overlayPath],
+  );
+  const program = ts.createProgram({ rootNames, options: COMPILER_OPTIONS, host });
+  const checker = program.getTypeChecker();
+
+  return params.overlays.map((o) => {
+    const overlayFile = program.getSourceFile(o.overlayPath);
+    const upstreamFile = program.getSourceFile(o.upstreamPath);
+    const overlayExports = overlayFile ? collectExports(checker, overlayFile) : new Map();
+    const upstreamExports = upstreamFile ? collectExports(checker, upstreamFile) : new Map();
+
+    const names = new Set([...upstreamExports.keys(), ...o.exports]);
+    const issues: ExportIssue[] = [];
+    for (const name of names) {
+      const ours = overlayExports.get(name);
+      if (!ours) {
+        issues.push({ kind: "missing", name });
+        continue;
+      }
+      const theirs = upstreamExports.get(name);
+      if (!theirs) continue;
+      const issue = compareEntries(checker, name, theirs, ours);
+      if (issue) issues.push(issue);
+    }
+    return { rel: o.rel, checked: names.size, issues };
+  });
+}
+
+function clip(text: string, max = 240): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+/** Human-readable lines for one export report (no trailing newline). */
+export function formatExportReport(report: ExportReport): string[] {
+  if (report.issues.length === 0) {
+    return [`  ✓ ${report.rel} (${report.checked} exports)`];
+  }
+  const lines = [`  ✖ ${report.rel} — ${report.issues.length} export problem(s)`];
+  for (const issue of report.issues) {
+    switch (issue.kind) {
+      case "missing":
+        lines.push(`      missing:      ${issue.name}`);
+        break;
+      case "kind-changed":
+        lines.push(`      kind changed: ${issue.name} (upstream ${issue.upstream}, overlay ${issue.overlay})`);
+        break;
+      case "incompatible":
+        lines.push(`      changed:      ${issue.name}`);
+        lines.push(`        upstream: ${clip(issue.upstream)}`);
+        lines.push(`        overlay:  ${clip(issue.overlay)}`);
+        break;
+    }
+  }
+  return lines;
+}
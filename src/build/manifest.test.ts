@@ -0,0 +1,228 @@
+/**
+ * Tests for the overlay manifest — validation, path resolution, and the
+ * shipped superpack.overlays.json.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  layerLabel,
+  parseManifest,
+  readManifest,
+  resolveLayeredOverlays,
+  resolveOverlays,
+  writeManifest,
+  MANIFEST_FILENAME,
+} from "./manifest.js";
+
+const REPO_ROOT = path.join(__dirname, "..", "..");
+
+describe("parseManifest", () => {
+  it("accepts a minimal entry", () => {
+    const manifest = parseManifest({ overlays: [{ upstream: "src/a.ts" }] });
+    expect(manifest.overlays).toHaveLength(1);
+    expect(manifest.overlays[0].upstream).toBe("src/a.ts");
+    expect(manifest.overlays[0].enabled).toBeUndefined();
+  });
+
+  it("rejects a missing overlays array", () => {
+    expect(() => parseManifest({})).toThrow("overlays must be an array");
+  });
+
+  it("names the offending field", () => {
+    expect(() => parseManifest({ overlays: [{ upstream: "src/a.ts", enabled: "yes" }] })).toThrow(
+      "overlays[0].enabled must be a boolean",
+    );
+    expect(() => parseManifest({ overlays: [{ upstream: "src/a.ts", exports: [1] }] })).toThrow(
+      "overlays[0].exports",
+    );
+    expect(() => parseManifest({ overlays: [{ upstream: "src/a.ts", kind: "merge" }] })).toThrow(
+      "overlays[0].kind must be one of replace, patch",
+    );
+    expect(() => parseManifest({ overlays: [{ upstream: "ui/a.ts", target: "web" }] })).toThrow(
+      "overlays[0].target must be one of main, ui",
+    );
+  });
+
+  it("rejects paths that escape the checkout", () => {
+    expect(() => parseManifest({ overlays: [{ upstream: "../etc/passwd" }] })).toThrow(
+      "overlays[0].upstream",
+    );
+    expect(() => parseManifest({ overlays: [{ upstream: "/abs/path.ts" }] })).toThrow(
+      "overlays[0].upstream",
+    );
+  });
+
+  it("rejects duplicate upstream paths", () => {
+    expect(() =>
+      parseManifest({ overlays: [{ upstream: "src/a.ts" }, { upstream: "src/./a.ts" }] }),
+    ).toThrow("overlays[1].upstream duplicates src/a.ts");
+  });
+});
+
+describe("resolveOverlays", () => {
+  let overlayDir: string;
+
+  beforeEach(() => {
+    overlayDir = mkdtempSync(path.join(os.tmpdir(), "superpack-manifest-"));
+    mkdirSync(path.join(overlayDir, "src/agents"), { recursive: true });
+    writeFileSync(path.join(overlayDir, "src/agents/a.ts"), "export {};\n");
+    writeFileSync(path.join(overlayDir, "src/agents/custom-b.ts"), "export {};\n");
+  });
+
+  afterEach(() => {
+    rmSync(overlayDir, { recursive: true, force: true });
+  });
+
+  it("resolves absolute paths and skips disabled entries", () => {
+    const overlays = resolveOverlays(
+      parseManifest({
+        overlays: [
+          { upstream: "src/agents/a.ts", upstreamHash: "abc", exports: ["x"] },
+          { upstream: "src/agents/b.ts", overlay: "src/agents/custom-b.ts", kind: "patch" },
+          { upstream: "src/agents/c.ts", enabled: false },
+        ],
+      }),
+      { upstreamDir: "/up", overlayDir },
+    );
+    expect(overlays).toEqual([
+      {
+        rel: "src/agents/a.ts",
+        upstreamPath: "/up/src/agents/a.ts",
+        overlayPath: path.join(overlayDir, "src/agents/a.ts"),
+        kind: "replace",
+        target: "main",
+        exports: ["x"],
+        pinnedBlob: "abc",
+        layer: overlayDir,
+        below: [],
+      },
+      {
+        rel: "src/agents/b.ts",
+        upstreamPath: "/up/src/agents/b.ts",
+        overlayPath: path.join(overlayDir, "src/agents/custom-b.ts"),
+        kind: "patch",
+        target: "main",
+        exports: [],
+        pinnedBlob: undefined,
+        layer: overlayDir,
+        below: [],
+      },
+    ]);
+  });
+
+  it("throws when an enabled overlay file is missing", () => {
+    expect(() =>
+      resolveOverlays(parseManifest({ overlays: [{ upstream: "src/agents/missing.ts" }] }), {
+        upstreamDir: "/up",
+        overlayDir,
+      }),
+    ).toThrow("overlay for src/agents/missing.ts not found");
+  });
+
+  it("round-trips through writeManifest", () => {
+    const manifest = parseManifest({
+      upstreamCommit: "deadbeef",
+      overlays: [
+        { upstream: "src/agents/a.ts", upstreamHash: "abc", exports: ["x"] },
+        { upstream: "src/agents/b.ts", kind: "patch" },
+        { upstream: "ui/src/ui/app.ts", target: "ui" },
+      ],
+    });
+    writeManifest(overlayDir, manifest);
+    const reread = readManifest(overlayDir);
+    expect(reread.upstreamCommit).toBe("deadbeef");
+    expect(reread.overlays[0]).toMatchObject({
+      upstream: "src/agents/a.ts",
+      upstreamHash: "abc",
+      enabled: true,
+    });
+    expect(reread.overlays[0].kind).toBeUndefined();
+    expect(reread.overlays[1].kind).toBe("patch");
+    expect(reread.overlays[1].target).toBeUndefined();
+    expect(reread.overlays[2].target).toBe("ui");
+    expect(readFileSync(path.join(overlayDir, MANIFEST_FILENAME), "utf-8")).toMatch(/\n$/);
+  });
+});
+
+describe("resolveLayeredOverlays", () => {
+  let team: string;
+  let personal: string;
+
+  const layer = (dir: string, files: string[], overlays: unknown[]) => {
+    for (const file of files) {
+      mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+      writeFileSync(path.join(dir, file), "export {};\n");
+    }
+    return { dir, manifest: parseManifest({ overlays }) };
+  };
+
+  beforeEach(() => {
+    team = mkdtempSync(path.join(os.tmpdir(), "superpack-team-"));
+    personal = mkdtempSync(path.join(os.tmpdir(), "superpack-personal-"));
+  });
+
+  afterEach(() => {
+    rmSync(team, { recursive: true, force: true });
+    rmSync(personal, { recursive: true, force: true });
+  });
+
+  it("lets the topmost declaring layer win and keeps lower overlays in below", () => {
+    const overlays = resolveLayeredOverlays(
+      [
+        layer(personal, ["src/a.ts"], [{ upstream: "src/a.ts", kind: "patch", upstreamHash: "p" }]),
+        layer(team, ["src/a.ts", "src/b.ts"], [
+          { upstream: "src/a.ts", upstreamHash: "t" },
+          { upstream: "src/b.ts" },
+        ]),
+      ],
+      "/up",
+    );
+    expect(overlays.map((o) => [o.rel, o.layer, o.kind, o.pinnedBlob])).toEqual([
+      ["src/a.ts", personal, "patch", "p"],
+      ["src/b.ts", team, "replace", undefined],
+    ]);
+    expect(overlays[0].overlayPath).toBe(path.join(personal, "src/a.ts"));
+    expect(overlays[0].below).toEqual([path.join(team, "src/a.ts")]);
+  });
+
+  it("turns an overlay off for all lower layers when the top disables it", () => {
+    const overlays = resolveLayeredOverlays(
+      [
+        layer(personal, [], [{ upstream: "src/a.ts", enabled: false }]),
+        layer(team, ["src/a.ts"], [{ upstream: "src/a.ts" }]),
+      ],
+      "/up",
+    );
+    expect(overlays).toEqual([]);
+  });
+
+  it("labels layers by directory name only when there are several", () => {
+    expect(layerLabel(team, [team])).toBe("overlay");
+    expect(layerLabel(team, [personal, team])).toBe(path.basename(team));
+  });
+
+  it("labels layers by full path when their directory names collide", () => {
+    const a = "/home/me/openclaw-superpack";
+    const b = "/srv/team/openclaw-superpack";
+    expect(layerLabel(a, [a, b, team])).toBe(a);
+    expect(layerLabel(b, [a, b, team])).toBe(b);
+    expect(layerLabel(team, [a, b, team])).toBe(path.basename(team));
+  });
+});
+
+describe("shipped superpack.overlays.json", () => {
+  it("is valid and every enabled overlay exists", () => {
+    const manifest = readManifest(REPO_ROOT);
+    const overlays = resolveOverlays(manifest, { upstreamDir: "/up", overlayDir: REPO_ROOT });
+    expect(overlays.map((o) => o.rel)).toContain("src/agents/system-prompt.ts");
+  });
+
+  it("declares the exports system-prompt.ts promises", () => {
+    const manifest = readManifest(REPO_ROOT);
+    const entry = manifest.overlays.find((e) => e.upstream === "src/agents/system-prompt.ts");
+    expect(entry?.exports).toEqual(["buildAgentSystemPrompt", "buildRuntimeLine", "PromptMode"]);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * openclaw-superpack: Overlay manifest
+ *
+ * superpack.overlays.json declares which upstream files are shadowed and how.
+ * The build script reads it instead of carrying a hardcoded alias map, so
+ * overlays can be added or toggled without touching build.ts.
+ *
+ * Each overlay layer (see resolveLayeredOverlays) carries its own manifest.
+ *
+ * {
+ *   "upstreamCommit": "…",          // upstream HEAD at last reconcile (informational)
+ *   "overlays": [
+ *     {
+ *       "upstream": "src/agents/system-prompt.ts",  // upstream-relative path
+ *       "overlay": "src/agents/system-prompt.ts",   // overlay-relative path (defaults to upstream)
+ *       "kind": "replace",                          // "replace" (full copy) or "patch" (imports upstream:)
+ *       "target": "main",                           // build that bundles it: "main" (tsdown) or "ui" (vite)
+ *       "exports": ["buildAgentSystemPrompt"],      // names the overlay must export
+ *       "upstreamHash": "…",                        // blob reconciled against (see drift.ts)
+ *       "enabled": true
+ *     }
+ *   ]
+ * }
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+export const MANIFEST_FILENAME = "superpack.overlays.json";
+
+/**
+ * replace: the overlay is a full copy of the upstream module.
+ * patch:   the overlay imports the original via `upstream:` and carries only
+ *          the delta (see overlay-plugin.ts).
+ */
+export type OverlayKind = "replace" | "patch";
+
+export const OVERLAY_KINDS: readonly OverlayKind[] = ["replace", "patch"];
+
+/**
+ * main: the tsdown build of the gateway/CLI (`pnpm build` upstream).
+ * ui:   the vite build of the web UI in ui/ (`pnpm ui:build` upstream).
+ */
+export type OverlayTarget = "main" | "ui";
+
+export const OVERLAY_TARGETS: readonly OverlayTarget[] = ["main", "ui"];
+
+export type OverlayManifestEntry = {
+  upstream: string;
+  overlay?: string;
+  kind?: OverlayKind;
+  target?: OverlayTarget;
+  exports?: string[];
+  upstreamHash?: string | null;
+  enabled?: boolean;
+};
+
+export type OverlayManifest = {
+  upstreamCommit?: string | null;
+  overlays: OverlayManifestEntry[];
+};
+
+/** A manifest entry resolved to absolute paths. */
+export type ResolvedOverlay = {
+  /** Upstream-relative path of the shadowed file */
+  rel: string;
+  upstreamPath: string;
+  overlayPath: string;
+  kind: OverlayKind;
+  target: OverlayTarget;
+  exports: string[];
+  pinnedBlob?: string;
+  /** Overlay layer directory that supplies overlayPath */
+  layer: string;
+  /** Overlays of the same file in lower layers, topmost first */
+  below: string[];
+};
+
+/** An overlay layer directory and its manifest. */
+export type OverlayLayer = {
+  dir: string;
+  manifest: OverlayManifest;
+};
+
+function fail(msg: string): never {
+  throw new Error(`${MANIFEST_FILENAME}: ${msg}`);
+}
+
+function isRelativeInside(p: string): boolean {
+  return !path.isAbsolute(p) && !p.split(/[\\/]/).includes("..");
+}
+
+/**
+ * Validate parsed JSON as a manifest. Throws with the offending field named.
+ */
+export function parseManifest(raw: unknown): OverlayManifest {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) fail("expected an object");
+  const obj = raw as Record<string, unknown>;
+  if (
+    obj.upstreamCommit !== undefined &&
+    obj.upstreamCommit !== null &&
+    typeof obj.upstreamCommit !== "string"
+  ) {
+    fail("upstreamCommit must be a string or null");
+  }
+  if (!Array.isArray(obj.overlays)) fail("overlays must be an array");
+
+  const seen = new Set<string>();
+  const overlays = obj.overlays.map((entry, i): OverlayManifestEntry => {
+    const at = `overlays[${i}]`;
+    if (!entry || typeof entry !== "object") fail(`${at} must be an object`);
+    const e = entry as Record<string, unknown>;
+    if (typeof e.upstream !== "string" || !isRelativeInside(e.upstream)) {
+      fail(`${at}.upstream must be a relative path inside the upstream checkout`);
+    }
+    if (e.overlay !== undefined && (typeof e.overlay !== "string" || !isRelativeInside(e.overlay))) {
+      fail(`${at}.overlay must be a relative path inside the overlay checkout`);
+    }
+    if (e.kind !== undefined && !OVERLAY_KINDS.includes(e.kind as OverlayKind)) {
+      fail(`${at}.kind must be one of ${OVERLAY_KINDS.join(", ")}`);
+    }
+    if (e.target !== undefined && !OVERLAY_TARGETS.includes(e.target as OverlayTarget)) {
+      fail(`${at}.target must be one of ${OVERLAY_TARGETS.join(", ")}`);
+    }
+    if (
+      e.exports !== undefined &&
+      (!Array.isArray(e.exports) || e.exports.some((x) => typeof x !== "string"))
+    ) {
+      fail(`${at}.exports must be an array of export names`);
+    }
+    if (e.upstreamHash !== undefined && e.upstreamHash !== null && typeof e.upstreamHash !== "string") {
+      fail(`${at}.upstreamHash must be a string or null`);
+    }
+    if (e.enabled !== undefined && typeof e.enabled !== "boolean") {
+      fail(`${at}.enabled must be a boolean`);
+    }
+    const upstream = path.normalize(e.upstream);
+    if (seen.has(upstream)) fail(`${at}.upstream duplicates ${upstream}`);
+    seen.add(upstream);
+    return {
+      upstream,
+      overlay: e.overlay === undefined ? undefined : path.normalize(e.overlay as string),
+      kind: e.kind as OverlayKind | undefined,
+      target: e.target as OverlayTarget | undefined,
+      exports: e.exports as string[] | undefined,
+      upstreamHash: e.upstreamHash as string | null | undefined,
+      enabled: e.enabled as boolean | undefined,
+    };
+  });
+
+  return { upstreamCommit: obj.upstreamCommit as string | null | undefined, overlays };
+}
+
+export function readManifest(overlayDir: string): OverlayManifest {
+  const manifestPath = path.join(overlayDir, MANIFEST_FILENAME);
+  if (!existsSync(manifestPath)) fail(`not found in ${overlayDir}`);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(manifestPath, "utf-8"));
+  } catch (err) {
+    fail(`invalid JSON (${String(err)})`);
+  }
+  return parseManifest(raw);
+}
+
+export function writeManifest(overlayDir: string, manifest: OverlayManifest): void {
+  const payload = {
+    upstreamCommit: manifest.upstreamCommit ?? null,
+    overlays: manifest.overlays.map((e) => ({
+      upstream: e.upstream,
+      ...(e.overlay !== undefined && e.overlay !== e.upstream ? { overlay: e.overlay } : {}),
+      ...(e.kind && e.kind !== "replace" ? { kind: e.kind } : {}),
+      ...(e.target && e.target !== "main" ? { target: e.target } : {}),
+      ...(e.exports ? { exports: e.exports } : {}),
+      upstreamHash: e.upstreamHash ?? null,
+      enabled: e.enabled ?? true,
+    })),
+  };
+  writeFileSync(
+    path.join(overlayDir, MANIFEST_FILENAME),
+    `${JSON.stringify(payload, null, 2)}\n`,
+  );
+}
+
+/**
+ * Resolve enabled manifest entries to absolute paths. Throws if an enabled
+ * overlay file is missing, since aliasing to a nonexistent file would break
+ * the build in a far less obvious way.
+ */
+export function resolveOverlays(
+  manifest: OverlayManifest,
+  dirs: { upstreamDir: string; overlayDir: string },
+): ResolvedOverlay[] {
+  return manifest.overlays
+    .filter((e) => e.enabled !== false)
+    .map((e) => {
+      const overlayPath = path.join(dirs.overlayDir, e.overlay ?? e.upstream);
+      if (!existsSync(overlayPath)) {
+        fail(`overlay for ${e.upstream} not found at ${overlayPath}`);
+      }
+      return {
+        rel: e.upstream,
+        upstreamPath: path.join(dirs.upstreamDir, e.upstream),
+        overlayPath,
+        kind: e.kind ?? "replace",
+        target: e.target ?? "main",
+        exports: e.exports ?? [],
+        pinnedBlob: e.upstreamHash ?? undefined,
+        layer: dirs.overlayDir,
+        below: [],
+      };
+    });
+}
+
+/**
+ * Resolve a stack of overlay layers, topmost first. For each upstream file
+ * the topmost layer that declares it decides: its entry supplies the overlay
+ * and metadata, and `enabled: false` there turns the overlay off for every
+ * layer beneath. Lower layers that also declare the file are kept in
+ * `below` so patch overlays can stack on them.
+ */
+export function resolveLayeredOverlays(
+  layers: OverlayLayer[],
+  upstreamDir: string,
+): ResolvedOverlay[] {
+  const result: ResolvedOverlay[] = [];
+  const byRel = new Map<string, ResolvedOverlay>();
+  const decided = new Set<string>();
+  for (const layer of layers) {
+    const resolved = new Map(
+      resolveOverlays(layer.manifest, { upstreamDir, overlayDir: layer.dir }).map((o) => [o.rel, o]),
+    );
+    for (const entry of layer.manifest.overlays) {
+      const own = resolved.get(entry.upstream);
+      const top = byRel.get(entry.upstream);
+      if (top) {
+        if (own) top.below.push(own.overlayPath);
+        continue;
+      }
+      if (decided.has(entry.upstream)) continue;
+      decided.add(entry.upstream);
+      if (!own) continue;
+      byRel.set(own.rel, own);
+      result.push(own);
+    }
+  }
+  return result;
+}
+
+/**
+ * Short name for a layer in build output: its directory name, or its full
+ * path when another layer has the same directory name (two clones of
+ * openclaw-superpack, say).
+ */
+export function layerLabel(dir: string, layers: string[]): string {
+  if (layers.length === 1) return "overlay";
+  const name = path.basename(dir);
+  return layers.some((other) => other !== dir && path.basename(other) === name) ? dir : name;
+}
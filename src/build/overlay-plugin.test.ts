@@ -0,0 +1,153 @@
+/**
+ * Tests for the superpack-overlay resolver — alias redirects, sibling
+ * fallback for overlay imports, and the upstream: specifier.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  createOverlayPlugin,
+  overlayMarker,
+  resolveUpstreamSpecifier,
+  upstreamMarker,
+} from "./overlay-plugin.js";
+
+const UP = "/up";
+const OV = "/ov";
+const dirs = { upstreamDir: UP, layers: [OV] };
+
+const plugin = createOverlayPlugin({
+  ...dirs,
+  aliases: [
+    { find: "/up/src/plugins/hooks.ts", replacement: "/ov/src/plugins/hooks.ts" },
+    { find: "/up/src/plugins/types.ts", replacement: "/ov/src/plugins/types.ts" },
+  ],
+});
+
+describe("superpack-overlay resolveId", () => {
+  it("redirects upstream imports of an overlaid module", () => {
+    expect(plugin.resolveId("./hooks.js", "/up/src/plugins/loader.ts")).toBe("/ov/src/plugins/hooks.ts");
+    expect(plugin.resolveId("/up/src/plugins/types.ts")).toBe("/ov/src/plugins/types.ts");
+  });
+
+  it("leaves unrelated imports to the default resolver", () => {
+    expect(plugin.resolveId("./config.js", "/up/src/plugins/loader.ts")).toBeUndefined();
+    expect(plugin.resolveId("node:path", "/up/src/plugins/loader.ts")).toBeUndefined();
+  });
+
+  it("resolves overlay-relative imports against upstream", () => {
+    expect(plugin.resolveId("../config/config.js", "/ov/src/plugins/hooks.ts")).toBe(
+      "/up/src/config/config.ts",
+    );
+  });
+
+  it("keeps overlay-to-overlay sibling imports on the overlay", () => {
+    expect(plugin.resolveId("./types.js", "/ov/src/plugins/hooks.ts")).toBe("/ov/src/plugins/types.ts");
+  });
+
+  it("resolves upstream: to the original file, bypassing the redirect", () => {
+    expect(plugin.resolveId("upstream:./hooks.js", "/ov/src/plugins/hooks.ts")).toBe(
+      "/up/src/plugins/hooks.ts",
+    );
+    expect(plugin.resolveId("upstream:src/plugins/types.ts", "/ov/src/agents/x.ts")).toBe(
+      "/up/src/plugins/types.ts",
+    );
+  });
+});
+
+describe("superpack-overlay with several layers", () => {
+  let root: string;
+  let personal: string;
+  let team: string;
+  let upstream: string;
+  let resolveId: (id: string, importer?: string) => string | undefined;
+
+  beforeAll(() => {
+    root = mkdtempSync(path.join(os.tmpdir(), "superpack-layers-"));
+    [personal, team, upstream] = ["personal", "team", "up"].map((d) => path.join(root, d));
+    for (const file of ["src/plugins/hooks.ts", "src/plugins/team-helper.ts", "src/diag.ts"]) {
+      mkdirSync(path.dirname(path.join(team, file)), { recursive: true });
+      writeFileSync(path.join(team, file), "export {};\n");
+    }
+    mkdirSync(path.join(upstream, "src/plugins"), { recursive: true });
+    writeFileSync(path.join(upstream, "src/plugins/registry.ts"), "export {};\n");
+    // Same name as an upstream module: not private, must not shadow it
+    writeFileSync(path.join(team, "src/plugins/registry.ts"), "export {};\n");
+    const layered = createOverlayPlugin({
+      layers: [personal, team],
+      upstreamDir: upstream,
+      aliases: [
+        {
+          find: path.join(upstream, "src/plugins/hooks.ts"),
+          replacement: path.join(personal, "src/plugins/hooks.ts"),
+          below: [path.join(team, "src/plugins/hooks.ts")],
+        },
+      ],
+    });
+    resolveId = layered.resolveId;
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("redirects upstream importers to the topmost layer", () => {
+    expect(resolveId("./hooks.js", path.join(upstream, "src/plugins/loader.ts"))).toBe(
+      path.join(personal, "src/plugins/hooks.ts"),
+    );
+  });
+
+  it("resolves siblings against lower layers before upstream", () => {
+    const importer = path.join(personal, "src/plugins/hooks.ts");
+    expect(resolveId("./team-helper.js", importer)).toBe(path.join(team, "src/plugins/team-helper.ts"));
+    expect(resolveId("./loader.js", importer)).toBe(path.join(upstream, "src/plugins/loader.ts"));
+  });
+
+  it("resolves superpack-only modules to the importer's own layer", () => {
+    const importer = path.join(team, "src/plugins/hooks.ts");
+    expect(resolveId("../diag.js", importer)).toBe(path.join(team, "src/diag.ts"));
+    expect(resolveId("./registry.js", importer)).toBe(path.join(upstream, "src/plugins/registry.ts"));
+  });
+
+  it("keeps a superpack-only module's imports in its own layer when upstream has the same path", () => {
+    const importer = path.join(team, "src/plugins/team-helper.ts");
+    expect(resolveId("./registry.js", importer)).toBe(path.join(team, "src/plugins/registry.ts"));
+    expect(resolveId("./hooks.js", importer)).toBe(path.join(personal, "src/plugins/hooks.ts"));
+    expect(resolveId("./loader.js", importer)).toBe(path.join(upstream, "src/plugins/loader.ts"));
+  });
+
+  it("stacks upstream: on the next layer down", () => {
+    expect(resolveId("upstream:./hooks.js", path.join(personal, "src/plugins/hooks.ts"))).toBe(
+      path.join(team, "src/plugins/hooks.ts"),
+    );
+    expect(resolveId("upstream:./hooks.js", path.join(team, "src/plugins/hooks.ts"))).toBe(
+      path.join(upstream, "src/plugins/hooks.ts"),
+    );
+  });
+});
+
+describe("superpack-overlay transform", () => {
+  it("appends a marker to overlay and shadowed upstream modules", () => {
+    const overlay = plugin.transform("export const a = 1;", "/ov/src/plugins/hooks.ts");
+    expect(overlay?.code).toMatch(/^export const a = 1;\n/);
+    expect(overlay?.code).toContain(JSON.stringify(overlayMarker("src/plugins/hooks.ts")));
+    expect(overlay?.map).toBeNull();
+
+    const upstream = plugin.transform("export {};", "/up/src/plugins/types.ts");
+    expect(upstream?.code).toContain(JSON.stringify(upstreamMarker("src/plugins/types.ts")));
+  });
+
+  it("leaves other modules alone", () => {
+    expect(plugin.transform("export {};", "/up/src/plugins/loader.ts")).toBeUndefined();
+  });
+});
+
+describe("resolveUpstreamSpecifier", () => {
+  it("requires an importer for relative specifiers", () => {
+    expect(() => resolveUpstreamSpecifier("upstream:./a.js", undefined, dirs)).toThrow(
+      "needs an importer",
+    );
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * openclaw-superpack: superpack-overlay rolldown plugin
+ *
+ * Redirects upstream modules to their overlays at resolve time. The generated
+ * tsdown wrapper config imports this file by absolute path, so it must only
+ * depend on node builtins.
+ *
+ * Two overlay kinds share the same redirect:
+ *   - replace: the overlay is a full copy of the upstream module plus our edits
+ *   - patch:   the overlay imports the upstream original through the virtual
+ *              `upstream:` specifier and re-exports it with additions, so it
+ *              only carries the delta
+ *
+ *   import * as upstream from "upstream:./hooks.js";   // sibling of the shadowed file
+ *   import { x } from "upstream:src/plugins/hooks.ts"; // upstream-root-relative
+ *   export * from "upstream:./hooks.js";
+ *
+ * `upstream:` resolves to whatever the importer shadows — the same file in
+ * the next overlay layer down that provides it, else the real upstream file —
+ * bypassing the redirect, which would otherwise make a patch import itself.
+ *
+ * Overlays may also import superpack-only modules from their own layer
+ * (`import { diag } from "../diag.js"`): a relative import that upstream
+ * cannot satisfy resolves to the layer's own file instead.
+ *
+ * Overlay layers (OPENCLAW_SUPERPACK may list several, topmost first) stack:
+ * the topmost layer declaring a file wins the redirect, and relative imports
+ * from a layer resolve against the layers below it before upstream.
+ *
+ * Every overlay module, and every shadowed upstream module that still gets
+ * loaded, is tagged with a marker string (see overlayMarker/upstreamMarker)
+ * so the post-build check in verify.ts can tell what actually landed in
+ * dist. The marker is registered as a side effect on globalThis, which
+ * keeps tree-shaking from dropping it.
+ */
+
+import { existsSync } from "node:fs";
+import path from "node:path";
+
+export const UPSTREAM_SPECIFIER = "upstream:";
+
+export const MARKER_GLOBAL = "__SUPERPACK_OVERLAYS__";
+
+/** Marker emitted into the bundle when the overlay for `rel` is included. */
+export function overlayMarker(rel: string): string {
+  return `superpack-overlay:${rel}`;
+}
+
+/** Marker emitted into the bundle when the shadowed upstream `rel` is included. */
+export function upstreamMarker(rel: string): string {
+  return `superpack-upstream:${rel}`;
+}
+
+function markerStatement(marker: string): string {
+  return `\n;(globalThis.${MARKER_GLOBAL} ??= []).push(${JSON.stringify(marker)});\n`;
+}
+
+export type OverlayAlias = {
+  /** Absolute path of the shadowed upstream file */
+  find: string;
+  /** Absolute path of the overlay that replaces it (topmost layer) */
+  replacement: string;
+  /** Overlays of the same file in lower layers, topmost first */
+  below?: string[];
+};
+
+export type OverlayPluginOptions = {
+  aliases: OverlayAlias[];
+  /** Overlay layer directories, topmost first */
+  layers: string[];
+  upstreamDir: string;
+};
+
+/** The subset of the rolldown plugin interface the overlay plugin uses. */
+export type OverlayPlugin = {
+  name: string;
+  resolveId(id: string, importer?: string): string | undefined;
+  transform(code: string, id: string): { code: string; map: null } | undefined;
+};
+
+type LayerDirs = { layers: string[]; upstreamDir: string };
+
+/** Plugin aliases for resolved overlays (see manifest.ts). */
+export function overlayAliases(
+  overlays: Array<{ upstreamPath: string; overlayPath: string; below?: string[] }>,
+): OverlayAlias[] {
+  return overlays.map((o) => ({ find: o.upstreamPath, replacement: o.overlayPath, below: o.below }));
+}
+
+/** `.js` import specifiers refer to `.ts` sources in the upstream tree. */
+function toSource(p: string): string {
+  return p.replace(/\.js$/, ".ts");
+}
+
+/** Index of the overlay layer containing `file`, or -1 for anything else. */
+export function layerIndex(file: string, layers: string[]): number {
+  return layers.findIndex((dir) => file.startsWith(dir + path.sep));
+}
+
+/** Map a file inside an overlay layer to its upstream counterpart path. */
+export function upstreamCounterpart(file: string, dirs: LayerDirs): string | undefined {
+  const i = layerIndex(file, dirs.layers);
+  if (i < 0) return undefined;
+  return path.join(dirs.upstreamDir, path.relative(dirs.layers[i], file));
+}
+
+/**
+ * Resolve an `upstream:` specifier to the module the importer shadows.
+ * Relative forms resolve against the importer's upstream counterpart;
+ * anything else is taken relative to the upstream root. The result is the
+ * first overlay of that file in a layer below the importer's, if any, else
+ * the upstream file itself.
+ */
+export function resolveUpstreamSpecifier(
+  id: string,
+  importer: string | undefined,
+  dirs: LayerDirs,
+  aliases: OverlayAlias[] = [],
+): string {
+  const spec = id.slice(UPSTREAM_SPECIFIER.length);
+  let target: string;
+  if (!spec.startsWith(".")) {
+    target = toSource(path.join(dirs.upstreamDir, spec));
+  } else {
+    const from = importer && (upstreamCounterpart(importer, dirs) ?? importer);
+    if (!from) {
+      throw new Error(`superpack-overlay: relative "${id}" needs an importer`);
+    }
+    target = toSource(path.resolve(path.dirname(from), spec));
+  }
+  const alias = aliases.find((a) => a.find === target);
+  if (!alias || !importer) return target;
+  const own = layerIndex(importer, dirs.layers);
+  if (own < 0) return target;
+  const stack = [alias.replacement, ...(alias.below ?? [])];
+  return stack.find((p) => layerIndex(p, dirs.layers) > own) ?? target;
+}
+
+/** Where a redirected import ended up, and which rule sent it there. */
+export type OverlayResolution = {
+  target: string;
+  /**
+   * alias:    import of a shadowed upstream module, redirected to its overlay
+   * sibling:  relative import from an overlay, resolved against lower
+   *           layers, then upstream
+   * upstream: `upstream:` specifier from a patch overlay
+   * private:  relative import from an overlay of a superpack-only module
+   *           in its own layer (e.g. src/diag.ts), which upstream lacks
+   */
+  via: "alias" | "sibling" | "upstream" | "private";
+};
+
+/**
+ * The resolve logic behind the plugin, reporting which rule matched.
+ * Returns undefined for imports left to the default resolver.
+ */
+export function createOverlayResolver(
+  opts: OverlayPluginOptions,
+): (id: string, importer?: string) => OverlayResolution | undefined {
+  const dirs = { layers: opts.layers, upstreamDir: opts.upstreamDir };
+  const byUpstream = new Map(opts.aliases.map((a) => [a.find, a.replacement]));
+
+  /** The copy of upstream `file` in the first layer below `own`, if any. */
+  const lowerLayerFile = (file: string, own: number): string | undefined => {
+    const rel = path.relative(opts.upstreamDir, file);
+    for (const dir of opts.layers.slice(own + 1)) {
+      const candidate = path.join(dir, rel);
+      if (existsSync(candidate)) return candidate;
+    }
+    return undefined;
+  };
+
+  return (id, importer) => {
+    // 0. Patch overlays reach the original through upstream:
+    if (id.startsWith(UPSTREAM_SPECIFIER)) {
+      return {
+        target: resolveUpstreamSpecifier(id, importer, dirs, opts.aliases),
+        via: "upstream",
+      };
+    }
+
+    // 1. Check if the resolved absolute path matches an overlay target
+    for (const { find, replacement } of opts.aliases) {
+      if (id === find) return { target: replacement, via: "alias" };
+      if (importer && id.startsWith(".")) {
+        const abs = path.resolve(path.dirname(importer), id);
+        // rolldown hands us the .ts path directly; sometimes the import
+        // uses a .js extension mapping to .ts
+        if (abs === find || toSource(abs) === find) return { target: replacement, via: "alias" };
+      }
+    }
+
+    // 2. When importing FROM an overlay file, resolve relative imports
+    //    against the layers below it, then the upstream directory, so
+    //    non-overlaid siblings resolve. Siblings that are themselves
+    //    overlaid still get the topmost overlay. Superpack-only modules
+    //    (no upstream counterpart) look in their own layer first, so a
+    //    private file named like an upstream one isn't swapped for it.
+    if (importer && id.startsWith(".")) {
+      const upstreamImporter = upstreamCounterpart(importer, dirs);
+      if (upstreamImporter) {
+        const resolved = toSource(path.resolve(path.dirname(upstreamImporter), id));
+        const own = toSource(path.resolve(path.dirname(importer), id));
+        const superpackOnly = !byUpstream.has(upstreamImporter) && !existsSync(upstreamImporter);
+        if (existsSync(own) && (superpackOnly || (!byUpstream.has(resolved) && !existsSync(resolved)))) {
+          return { target: byUpstream.get(resolved) ?? own, via: "private" };
+        }
+        const target =
+          byUpstream.get(resolved) ??
+          lowerLayerFile(resolved, layerIndex(importer, opts.layers)) ??
+          resolved;
+        return { target, via: "sibling" };
+      }
+    }
+
+    return undefined;
+  };
+}
+
+export function createOverlayPlugin(opts: OverlayPluginOptions): OverlayPlugin {
+  const resolve = createOverlayResolver(opts);
+  const markers = new Map<string, string>();
+  for (const { find, replacement } of opts.aliases) {
+    const rel = path.relative(opts.upstreamDir, find);
+    markers.set(replacement, overlayMarker(rel));
+    markers.set(find, upstreamMarker(rel));
+  }
+
+  return {
+    name: "superpack-overlay",
+    resolveId(id, importer) {
+      return resolve(id, importer)?.target;
+    },
+    transform(code, id) {
+      const marker = markers.get(id);
+      if (!marker) return undefined;
+      // Appended, so existing line/column mappings stay valid
+      return { code: code + markerStatement(marker), map: null };
+    },
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Tests for post-build overlay verification against a throwaway dist tree.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { overlayMarker, upstreamMarker } from "./overlay-plugin.js";
+import { formatDistReport, hasRuntimeExports, uiOutDir, verifyDist } from "./verify.js";
+
+describe("verifyDist", () => {
+  let distDir: string;
+
+  beforeEach(() => {
+    distDir = mkdtempSync(path.join(os.tmpdir(), "superpack-dist-"));
+    mkdirSync(path.join(distDir, "plugins"));
+    writeFileSync(
+      path.join(distDir, "index.js"),
+      `push("${overlayMarker("src/a.ts")}");\npush("${overlayMarker("src/b.ts")}");\n`,
+    );
+    writeFileSync(path.join(distDir, "plugins/runner.mjs"), `push("${upstreamMarker("src/b.ts")}");\n`);
+    writeFileSync(
+      path.join(distDir, "plugins/patched.js"),
+      `push("${overlayMarker("src/p.ts")}");\npush("${upstreamMarker("src/p.ts")}");\n`,
+    );
+    // Not a chunk: markers in source maps must not count
+    writeFileSync(path.join(distDir, "index.js.map"), overlayMarker("src/gone.ts"));
+  });
+
+  afterEach(() => {
+    rmSync(distDir, { recursive: true, force: true });
+  });
+
+  const verify = () =>
+    new Map(
+      verifyDist({
+        distDir,
+        overlays: [
+          { rel: "src/a.ts" },
+          { rel: "src/b.ts", kind: "replace" },
+          { rel: "src/p.ts", kind: "patch" },
+          { rel: "src/gone.ts" },
+        ],
+      }).map((r) => [r.rel, r]),
+    );
+
+  it("classifies present, duplicated, and missing overlays", () => {
+    const reports = verify();
+    expect(reports.get("src/a.ts")).toMatchObject({ status: "present", overlayChunks: ["index.js"] });
+    expect(reports.get("src/b.ts")).toMatchObject({
+      status: "duplicated",
+      upstreamChunks: [path.join("plugins", "runner.mjs")],
+    });
+    expect(reports.get("src/gone.ts")?.status).toBe("missing");
+  });
+
+  it("expects the upstream original next to a patch overlay", () => {
+    expect(verify().get("src/p.ts")?.status).toBe("present");
+  });
+
+  it("reports every overlay missing when dist does not exist", () => {
+    rmSync(distDir, { recursive: true, force: true });
+    expect([...verify().values()].every((r) => r.status === "missing")).toBe(true);
+  });
+
+  it("formats a readable report", () => {
+    const reports = verify();
+    expect(formatDistReport(reports.get("src/a.ts")!)).toEqual(["  ✓ src/a.ts (index.js)"]);
+    expect(formatDistReport(reports.get("src/gone.ts")!)[0]).toContain("✖ src/gone.ts");
+    expect(formatDistReport(reports.get("src/b.ts")!).join("\n")).toContain(
+      "overlay and upstream original both bundled",
+    );
+  });
+});
+
+describe("verifyDist with type-only and ui overlays", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(os.tmpdir(), "superpack-dist-"));
+    mkdirSync(path.join(root, "dist/control-ui/assets"), { recursive: true });
+    mkdirSync(path.join(root, "src"));
+    writeFileSync(path.join(root, "dist/index.js"), `push("${overlayMarker("src/main.ts")}");\n`);
+    writeFileSync(
+      path.join(root, "dist/control-ui/assets/index.js"),
+      `push("${overlayMarker("ui/src/app.ts")}");\npush("${overlayMarker("src/stray.ts")}");\n`,
+    );
+    writeFileSync(path.join(root, "src/types.ts"), "export type A = string;\nexport interface B { a: A }\n");
+    writeFileSync(path.join(root, "src/gone.ts"), "export const gone = 1;\n");
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  // Keyed by position: src/main.ts is checked for both targets
+  const verify = (uiDistDir = path.join(root, "dist/control-ui")) =>
+    new Map(
+      verifyDist({
+        distDir: path.join(root, "dist"),
+        uiDistDir,
+        overlays: [
+          { rel: "src/main.ts" },
+          { rel: "src/stray.ts" },
+          { rel: "ui/src/app.ts", target: "ui" },
+          { rel: "src/main.ts", target: "ui" },
+          { rel: "src/types.ts", overlayPath: path.join(root, "src/types.ts") },
+          { rel: "src/gone.ts", overlayPath: path.join(root, "src/gone.ts") },
+        ],
+      }).map((r, i) => [i, r]),
+    );
+
+  it("doesn't expect overlays without runtime exports in the bundle", () => {
+    const reports = verify();
+    expect(reports.get(4)?.status).toBe("type-only");
+    expect(reports.get(5)?.status).toBe("missing");
+    expect(formatDistReport(reports.get(4)!)).toEqual(["  · src/types.ts (types only, nothing to bundle)"]);
+  });
+
+  it("looks for ui overlays in the ui output only, and main ones outside it", () => {
+    const reports = verify();
+    expect(reports.get(0)?.status).toBe("present");
+    expect(reports.get(1)?.status).toBe("missing");
+    expect(reports.get(2)).toMatchObject({
+      status: "present",
+      overlayChunks: [path.join("control-ui", "assets", "index.js")],
+    });
+    expect(reports.get(3)?.status).toBe("missing");
+  });
+
+  it("resolves a relative ui outDir against the ui root", () => {
+    const uiDistDir = uiOutDir({ root: path.join(root, "ui"), build: { outDir: "../dist/control-ui" } });
+    expect(uiDistDir).toBe(path.join(root, "dist/control-ui"));
+    const reports = verify(uiDistDir);
+    expect(reports.get(1)?.status).toBe("missing");
+    expect(reports.get(2)?.status).toBe("present");
+  });
+});
+
+describe("hasRuntimeExports", () => {
+  it.each([
+    ["export type A = string; export interface B {}", false],
+    ['export type { A } from "./a.js"; export { type B } from "./b.js";', false],
+    ["declare const x: number; export declare function f(): void;", false],
+    ["export {};", false],
+    ["export const x = 1;", true],
+    ["export function f() {}", true],
+    ["export default {};", true],
+    ['export * from "upstream:./x.js";', true],
+    ['export { a, type B } from "./a.js";', true],
+  ])("%s → %s", (source, expected) => {
+    expect(hasRuntimeExports(source)).toBe(expected);
+  });
+});
+
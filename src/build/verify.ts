@@ -0,0 +1,149 @@
+/**
+ * openclaw-superpack: Post-build overlay verification
+ *
+ * The superpack-overlay plugin tags each overlay module, and each shadowed
+ * upstream module that still gets loaded, with a marker string (see
+ * overlay-plugin.ts). After tsdown finishes, this scans the emitted chunks
+ * for those markers and reports per overlay:
+ *   - present:    the overlay's marker is in dist
+ *   - missing:    no chunk carries the overlay — upstream importers never
+ *                 reached it (see build.ts --dry-run --explain for why)
+ *   - duplicated: a replace overlay landed, but so did the upstream module it
+ *                 was meant to replace
+ *   - type-only:  the overlay exports only types, so there is nothing to
+ *                 bundle and no marker to look for
+ *
+ * Patch overlays import their upstream original on purpose, so the upstream
+ * marker alongside them is expected and not a duplicate.
+ *
+ * Main overlays are looked for in dist minus the web UI's output directory,
+ * ui overlays only in that directory.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import ts from "typescript";
+import type { OverlayKind, OverlayTarget } from "./manifest.js";
+import { overlayMarker, upstreamMarker } from "./overlay-plugin.js";
+
+export type DistStatus = "present" | "missing" | "duplicated" | "type-only";
+
+export type DistReport = {
+  /** Upstream-relative path of the shadowed file */
+  rel: string;
+  status: DistStatus;
+  /** dist-relative chunks carrying the overlay marker */
+  overlayChunks: string[];
+  /** dist-relative chunks carrying the shadowed upstream module's marker */
+  upstreamChunks: string[];
+};
+
+const CHUNK_EXT = /\.(js|mjs|cjs)$/;
+
+function walkChunks(dir: string, out: string[] = []): string[] {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) walkChunks(full, out);
+    else if (CHUNK_EXT.test(entry.name)) out.push(full);
+  }
+  return out;
+}
+
+/**
+ * Whether `source` exports anything that exists at runtime. Re-exports
+ * (`export * from`, `export { x } from`) count unless marked `type`.
+ */
+export function hasRuntimeExports(source: string): boolean {
+  const file = ts.createSourceFile("overlay.ts", source, ts.ScriptTarget.Latest, false, ts.ScriptKind.TS);
+  return file.statements.some((stmt) => {
+    if (ts.isExportDeclaration(stmt)) {
+      if (stmt.isTypeOnly) return false;
+      const clause = stmt.exportClause;
+      return !clause || !ts.isNamedExports(clause) || clause.elements.some((e) => !e.isTypeOnly);
+    }
+    if (ts.isExportAssignment(stmt)) return true;
+    if (ts.isTypeAliasDeclaration(stmt) || ts.isInterfaceDeclaration(stmt)) return false;
+    const modifiers = ts.canHaveModifiers(stmt) ? ts.getModifiers(stmt) : undefined;
+    const has = (kind: ts.SyntaxKind) => modifiers?.some((m) => m.kind === kind) ?? false;
+    return has(ts.SyntaxKind.ExportKeyword) && !has(ts.SyntaxKind.DeclareKeyword);
+  });
+}
+
+function isTypeOnlyOverlay(overlayPath: string | undefined): boolean {
+  if (!overlayPath || !existsSync(overlayPath)) return false;
+  return !hasRuntimeExports(readFileSync(overlayPath, "utf-8"));
+}
+
+/**
+ * The web UI's output directory from vite's resolved config, which keeps
+ * build.outDir as written (possibly relative to the ui root).
+ */
+export function uiOutDir(config: { root: string; build: { outDir: string } }): string {
+  return path.resolve(config.root, config.build.outDir);
+}
+
+export function verifyDist(params: {
+  distDir: string;
+  /** Where the web UI build writes its chunks (inside or outside distDir) */
+  uiDistDir?: string;
+  overlays: Array<{ rel: string; kind?: OverlayKind; target?: OverlayTarget; overlayPath?: string }>;
+}): DistReport[] {
+  const { distDir, uiDistDir } = params;
+  const readChunks = (dir: string) =>
+    existsSync(dir)
+      ? walkChunks(dir).map((file) => ({ file, name: path.relative(distDir, file), code: readFileSync(file, "utf-8") }))
+      : [];
+  const isInside = (dir: string, file: string) => {
+    const rel = path.relative(dir, file);
+    return !rel.startsWith("..") && !path.isAbsolute(rel);
+  };
+
+  const all = readChunks(distDir);
+  const chunks: Record<OverlayTarget, typeof all> = {
+    main: uiDistDir === undefined ? all : all.filter((c) => !isInside(uiDistDir, c.file)),
+    ui:
+      uiDistDir === undefined
+        ? all
+        : isInside(distDir, uiDistDir)
+          ? all.filter((c) => isInside(uiDistDir, c.file))
+          : readChunks(uiDistDir),
+  };
+
+  return params.overlays.map(({ rel, kind, target = "main", overlayPath }) => {
+    const carrying = (marker: string) => chunks[target].filter((c) => c.code.includes(marker)).map((c) => c.name);
+    const overlayChunks = carrying(overlayMarker(rel));
+    const upstreamChunks = carrying(upstreamMarker(rel));
+    const status: DistStatus =
+      overlayChunks.length > 0
+        ? kind !== "patch" && upstreamChunks.length > 0
+          ? "duplicated"
+          : "present"
+        : isTypeOnlyOverlay(overlayPath)
+          ? "type-only"
+          : "missing";
+    return { rel, status, overlayChunks, upstreamChunks };
+  });
+}
+
+function listChunks(names: string[], max = 3): string {
+  const shown = names.slice(0, max).join(", ");
+  return names.length > max ? `${shown}, +${names.length - max} more` : shown;
+}
+
+/** Human-readable lines for one dist report (no trailing newline). */
+export function formatDistReport(report: DistReport): string[] {
+  switch (report.status) {
+    case "present":
+      return [`  ✓ ${report.rel} (${listChunks(report.overlayChunks)})`];
+    case "type-only":
+      return [`  · ${report.rel} (types only, nothing to bundle)`];
+    case "missing":
+      return [`  ✖ ${report.rel} — overlay not found in any emitted chunk`];
+    case "duplicated":
+      return [
+        `  ⚠ ${report.rel} — overlay and upstream original both bundled`,
+        `      overlay:  ${listChunks(report.overlayChunks)}`,
+        `      upstream: ${listChunks(report.upstreamChunks)}`,
+      ];
+  }
+}
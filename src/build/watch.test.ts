@@ -0,0 +1,60 @@
+/**
+ * Tests for the supervisor's file watcher, against a throwaway directory.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, renameSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { watchFiles, type FileWatcher } from "./watch.js";
+
+describe("watchFiles", () => {
+  let dir: string;
+  let watcher: FileWatcher | undefined;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), "superpack-watch-"));
+    writeFileSync(path.join(dir, "watched.ts"), "a\n");
+    writeFileSync(path.join(dir, "other.ts"), "a\n");
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const settle = (ms = 200) => new Promise((r) => setTimeout(r, ms));
+
+  it("reports a burst of writes once, and ignores unwatched siblings", async () => {
+    const seen: string[] = [];
+    const file = path.join(dir, "watched.ts");
+    watcher = watchFiles([file], (f) => seen.push(f), { debounceMs: 30 });
+    writeFileSync(path.join(dir, "other.ts"), "b\n");
+    writeFileSync(file, "b\n");
+    writeFileSync(file, "c\n");
+    await settle();
+    expect(seen).toEqual([file]);
+  });
+
+  it("keeps watching after the file is replaced by rename", async () => {
+    const seen: string[] = [];
+    const file = path.join(dir, "watched.ts");
+    watcher = watchFiles([file], (f) => seen.push(f), { debounceMs: 30 });
+    writeFileSync(path.join(dir, "tmp"), "b\n");
+    renameSync(path.join(dir, "tmp"), file);
+    await settle();
+    writeFileSync(file, "c\n");
+    await settle();
+    expect(seen).toEqual([file, file]);
+  });
+
+  it("ignores files in missing directories and stops after close", async () => {
+    const seen: string[] = [];
+    const file = path.join(dir, "watched.ts");
+    watcher = watchFiles([file, path.join(dir, "nope/x.ts")], (f) => seen.push(f), { debounceMs: 30 });
+    watcher.close();
+    writeFileSync(file, "b\n");
+    await settle();
+    expect(seen).toEqual([]);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * openclaw-superpack: File watching for `pnpm watch`
+ *
+ * tsdown --watch only sees files in the module graph. The supervisor in
+ * build.ts also needs to notice manifest edits (to restart tsdown with a new
+ * overlay set) and upstream edits under overlaid paths (to warn about drift).
+ *
+ * Watches parent directories rather than the files themselves: git checkouts
+ * and most editors replace files by rename, which silently ends a watch on
+ * the original inode.
+ */
+
+import { existsSync, watch, type FSWatcher } from "node:fs";
+import path from "node:path";
+
+export type FileWatcher = { close(): void };
+
+/**
+ * Call `onChange(file)` once a burst of events on any of `files` settles.
+ * Files in directories that do not exist are ignored.
+ */
+export function watchFiles(
+  files: string[],
+  onChange: (file: string) => void,
+  opts: { debounceMs?: number } = {},
+): FileWatcher {
+  const debounceMs = opts.debounceMs ?? 100;
+  const byDir = new Map<string, Set<string>>();
+  for (const file of files) {
+    const dir = path.dirname(file);
+    if (!byDir.has(dir)) byDir.set(dir, new Set());
+    byDir.get(dir)!.add(path.basename(file));
+  }
+
+  const timers = new Map<string, NodeJS.Timeout>();
+  const watchers: FSWatcher[] = [];
+  for (const [dir, names] of byDir) {
+    if (!existsSync(dir)) continue;
+    watchers.push(
+      watch(dir, (_event, filename) => {
+        if (!filename || !names.has(filename)) return;
+        const file = path.join(dir, filename);
+        clearTimeout(timers.get(file));
+        timers.set(
+          file,
+          setTimeout(() => {
+            timers.delete(file);
+            onChange(file);
+          }, debounceMs),
+        );
+      }),
+    );
+  }
+
+  return {
+    close() {
+      for (const w of watchers) w.close();
+      for (const t of timers.values()) clearTimeout(t);
+      timers.clear();
+    },
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * openclaw-superpack: JSON Lines diagnostic sink
+ *
+ * Appends one JSON object per diag record, so long gateway runs can be
+ * grepped, filtered with jq and archived instead of scraped off a terminal:
+ *
+ *   jq -r 'select(.level == "dump") | .payload' superpack-diag.jsonl
+ *
+ * Writes are synchronous so records land in call order and survive a crash
+ * right after them. The first failed write is reported on stderr and the
+ * sink goes quiet; diagnostics never take the gateway down.
+ */
+
+import { appendFileSync, mkdirSync } from "node:fs";
+import path from "node:path";
+import type { DiagSink } from "./diag.js";
+
+export function createJsonlSink(file: string): DiagSink {
+  let ready = false;
+  let failed = false;
+  return (record) => {
+    if (failed) return;
+    try {
+      if (!ready) {
+        mkdirSync(path.dirname(file), { recursive: true });
+        ready = true;
+      }
+      appendFileSync(file, `${JSON.stringify(record)}\n`);
+    } catch (err) {
+      failed = true;
+      process.stderr.write(
+        `[superpack:diag] cannot write ${file}, JSONL diagnostics disabled: ${(err as Error).message}\n`,
+      );
+    }
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, statSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  DEFAULT_DUMP_LIMITS,
+  dumpLimits,
+  setConfigDumpLimits,
+  spillDump,
+  truncateDump,
+} from "./diag-spill.js";
+
+describe("dump truncation", () => {
+  const originalEnv = { ...process.env };
+  let stateDir: string;
+
+  beforeEach(() => {
+    stateDir = mkdtempSync(path.join(os.tmpdir(), "superpack-spill-"));
+    process.env.OPENCLAW_STATE_DIR = stateDir;
+    delete process.env.SUPERPACK_DUMP_MAX_BYTES;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    setConfigDumpLimits(undefined);
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  const numbered = (n: number) => Array.from({ length: n }, (_, i) => `line ${i + 1}`).join("\n");
+
+  it("leaves content within the cap alone", () => {
+    expect(truncateDump("short", DEFAULT_DUMP_LIMITS)).toBeUndefined();
+  });
+
+  it("keeps head and tail lines of oversized content", () => {
+    const content = numbered(100);
+    const t = truncateDump(content, { maxBytes: 100, headLines: 3, tailLines: 2 })!;
+    expect(t.head).toEqual(["line 1", "line 2", "line 3"]);
+    expect(t.tail).toEqual(["line 99", "line 100"]);
+    expect(t.elidedLines).toBe(95);
+    expect(t.totalBytes).toBe(Buffer.byteLength(content));
+  });
+
+  it("cuts by bytes when there are too few lines to elide", () => {
+    const t = truncateDump("x".repeat(1000), { maxBytes: 100, headLines: 3, tailLines: 2 })!;
+    expect(t.head[0]).toHaveLength(50);
+    expect(t.tail[0]).toHaveLength(50);
+    expect(t.elidedLines).toBe(0);
+  });
+
+  it("never truncates with a cap of 0", () => {
+    expect(truncateDump(numbered(10_000), { ...DEFAULT_DUMP_LIMITS, maxBytes: 0 })).toBeUndefined();
+  });
+
+  it("takes limits from config, with the env cap winning", () => {
+    setConfigDumpLimits({ maxBytes: 500, headLines: 5 });
+    expect(dumpLimits()).toEqual({ maxBytes: 500, headLines: 5, tailLines: DEFAULT_DUMP_LIMITS.tailLines });
+    process.env.SUPERPACK_DUMP_MAX_BYTES = "0";
+    expect(dumpLimits().maxBytes).toBe(0);
+  });
+
+  it("shares config between copies of the module", async () => {
+    vi.resetModules();
+    const other = await import("./diag-spill.js");
+    expect(other.dumpLimits).not.toBe(dumpLimits);
+    other.setConfigDumpLimits({ tailLines: 3 });
+    expect(dumpLimits().tailLines).toBe(3);
+  });
+
+  it("spills the full body once per hash under the state dir", () => {
+    const file = spillDump("abc123def456", "full body");
+    expect(file).toBe(path.join(stateDir, "superpack", "dumps", "abc123def456.txt"));
+    expect(readFileSync(file, "utf-8")).toBe("full body");
+    if (process.platform !== "win32") {
+      expect(statSync(path.dirname(file)).mode & 0o777).toBe(0o700);
+      expect(statSync(file).mode & 0o777).toBe(0o600);
+    }
+
+    const mtime = statSync(file).mtimeMs;
+    expect(spillDump("abc123def456", "full body")).toBe(file);
+    expect(statSync(file).mtimeMs).toBe(mtime);
+  });
+});
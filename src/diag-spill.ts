@@ -0,0 +1,95 @@
+/**
+ * openclaw-superpack: Truncated dumps with spill-to-file
+ *
+ * A 200 KB system prompt with context files drowns the terminal. Dumps over
+ * the size cap are shown as head + elision marker + tail on stderr, and the
+ * full body is written once to <state dir>/superpack/dumps/<sha256>.txt —
+ * content-addressed by the hash diagDump already prints, so repeated dumps
+ * of the same prompt share one file. Bodies that redaction changed get a
+ * `.redacted` suffix so they never stand in for the raw text.
+ *
+ * Limits: SUPERPACK_DUMP_MAX_BYTES (env, wins) or setConfigDumpLimits from
+ * config (superpack.dumpLimits). A max of 0 turns truncation off.
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { superpackStateDir } from "./state-dir.js";
+
+export type DumpLimits = {
+  /** Dumps larger than this many bytes are truncated on stderr (0 = never) */
+  maxBytes: number;
+  /** Lines kept from the start */
+  headLines: number;
+  /** Lines kept from the end */
+  tailLines: number;
+};
+
+export const DEFAULT_DUMP_LIMITS: DumpLimits = { maxBytes: 32 * 1024, headLines: 40, tailLines: 20 };
+
+type SpillConfigState = { configLimits: Partial<DumpLimits> };
+
+// On globalThis, like flags.ts, so the plugin's config reaches the overlays' copy
+const STATE_KEY = Symbol.for("openclaw-superpack.diag-spill");
+const state = ((globalThis as Record<symbol, unknown>)[STATE_KEY] ??= {
+  configLimits: {},
+} satisfies SpillConfigState) as SpillConfigState;
+
+/** Config-driven limits; unset fields keep their defaults. */
+export function setConfigDumpLimits(limits?: Partial<DumpLimits>): void {
+  state.configLimits = limits ?? {};
+}
+
+export function dumpLimits(): DumpLimits {
+  const limits = { ...DEFAULT_DUMP_LIMITS, ...state.configLimits };
+  const env = Number.parseInt(process.env.SUPERPACK_DUMP_MAX_BYTES ?? "", 10);
+  if (Number.isFinite(env) && env >= 0) limits.maxBytes = env;
+  return limits;
+}
+
+export type Truncated = {
+  head: string[];
+  tail: string[];
+  /** Lines left out between head and tail */
+  elidedLines: number;
+  /** Byte size of the whole content */
+  totalBytes: number;
+};
+
+/** Head and tail of `content`, or undefined when it fits within the limits. */
+export function truncateDump(content: string, limits: DumpLimits): Truncated | undefined {
+  const totalBytes = Buffer.byteLength(content, "utf-8");
+  if (limits.maxBytes <= 0 || totalBytes <= limits.maxBytes) return undefined;
+  const lines = content.split("\n");
+  const keep = limits.headLines + limits.tailLines;
+  if (lines.length <= keep) {
+    // Few, very long lines: cut by bytes instead, roughly half each side
+    const half = Math.floor(limits.maxBytes / 2);
+    return {
+      head: [content.slice(0, half)],
+      tail: [content.slice(-half)],
+      elidedLines: 0,
+      totalBytes,
+    };
+  }
+  return {
+    head: lines.slice(0, limits.headLines),
+    tail: limits.tailLines > 0 ? lines.slice(-limits.tailLines) : [],
+    elidedLines: lines.length - keep,
+    totalBytes,
+  };
+}
+
+/**
+ * Write `content` to the dumps directory as `<name>.txt` unless it is already
+ * there, readable by the owner only (a dump_unredacted body holds secrets).
+ * Returns the file path; throws if it cannot be written.
+ */
+export function spillDump(name: string, content: string): string {
+  const file = path.join(superpackStateDir(), "dumps", `${name}.txt`);
+  if (!existsSync(file)) {
+    mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+    writeFileSync(file, content, { mode: 0o600 });
+  }
+  return file;
+}
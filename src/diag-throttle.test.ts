@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  admitRecord,
+  DEFAULT_RATE_LIMITS,
+  rateLimits,
+  resetThrottle,
+  setConfigRateLimits,
+  takeDropCounts,
+} from "./diag-throttle.js";
+
+describe("diagnostic throttling", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.SUPERPACK_DIAG_RATE_LIMIT;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    setConfigRateLimits(undefined);
+    resetThrottle();
+  });
+
+  const admitted = (n: number, rate: number, label = "tools", now = 0) =>
+    Array.from({ length: n }, () => admitRecord("dump_tool_calls", label, rate, now));
+
+  it("keeps every record of an unsampled flag under the limit", () => {
+    expect(admitted(50, 1).every(Boolean)).toBe(true);
+    expect(takeDropCounts()).toEqual([]);
+  });
+
+  it("keeps an evenly spread share of a sampled flag, starting with the first", () => {
+    const kept = admitted(30, 0.1);
+    expect(kept.flatMap((k, i) => (k ? [i] : []))).toEqual([0, 10, 20]);
+    expect(admitted(10, 0.7).filter(Boolean)).toHaveLength(7);
+  });
+
+  it("caps each label per minute and opens a new window after it", () => {
+    setConfigRateLimits({ perMinute: 3 });
+    expect(admitted(5, 1)).toEqual([true, true, true, false, false]);
+    expect(admitted(1, 1, "hooks")).toEqual([true]);
+    expect(admitted(1, 1, "tools", 59_999)).toEqual([false]);
+    expect(admitted(1, 1, "tools", 60_000)).toEqual([true]);
+  });
+
+  it("counts drops by flag, label and reason until taken", () => {
+    setConfigRateLimits({ perMinute: 2 });
+    admitted(10, 0.5);
+    expect(takeDropCounts()).toEqual([
+      { flag: "dump_tool_calls", label: "tools", sampled: 5, rateLimited: 3 },
+    ]);
+    expect(takeDropCounts()).toEqual([]);
+  });
+
+  it("takes per-label limits from config, with the env default winning", () => {
+    setConfigRateLimits({ perMinute: 100, labels: { tools: 1 } });
+    expect(admitted(2, 1)).toEqual([true, false]);
+    expect(rateLimits()).toEqual({ perMinute: 100, labels: { tools: 1 } });
+    process.env.SUPERPACK_DIAG_RATE_LIMIT = "0";
+    expect(rateLimits()).toEqual({ perMinute: 0, labels: { tools: 1 } });
+    setConfigRateLimits(undefined);
+    expect(rateLimits()).toEqual({ ...DEFAULT_RATE_LIMITS, perMinute: 0 });
+    expect(admitted(1000, 1, "other").every(Boolean)).toBe(true);
+  });
+
+  it("shares config between copies of the module", async () => {
+    vi.resetModules();
+    const other = await import("./diag-throttle.js");
+    expect(other.rateLimits).not.toBe(rateLimits);
+    other.setConfigRateLimits({ labels: { tools: 5 } });
+    expect(rateLimits()).toEqual({ perMinute: 600, labels: { tools: 5 } });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * openclaw-superpack: Sampling and rate limits for diagnostics
+ *
+ * dump_tool_calls, dump_tool_results and dump_hook_events fire on every
+ * event; a runaway tool loop would bury everything else. diag.ts asks
+ * admitRecord before building each record:
+ *   - sampled flags (dump_tool_calls:0.1, see flags.ts) keep that share of
+ *     records, spread evenly rather than at random
+ *   - every label gets at most N records per minute (default 600)
+ * Dropped records are counted and reported by diag.ts as one summary line
+ * per label at most once per SUMMARY_INTERVAL_MS.
+ *
+ * Limits: SUPERPACK_DIAG_RATE_LIMIT (env, wins for the default) or
+ * setConfigRateLimits from config (superpack.rateLimits). 0 means no limit.
+ */
+
+import type { AnyFlagName } from "./flags.js";
+
+export type RateLimits = {
+  /** Records per label per minute (0 = unlimited) */
+  perMinute: number;
+  /** Overrides for single labels */
+  labels: Record<string, number>;
+};
+
+export const DEFAULT_RATE_LIMITS: RateLimits = { perMinute: 600, labels: {} };
+
+export const SUMMARY_INTERVAL_MS = 60_000;
+
+const WINDOW_MS = 60_000;
+
+type ThrottleConfigState = { configLimits: Partial<RateLimits> };
+
+// On globalThis, like flags.ts, so the plugin's config reaches the overlays' copy
+const STATE_KEY = Symbol.for("openclaw-superpack.diag-throttle");
+const state = ((globalThis as Record<symbol, unknown>)[STATE_KEY] ??= {
+  configLimits: {},
+} satisfies ThrottleConfigState) as ThrottleConfigState;
+
+/** Config-driven limits; unset fields keep their defaults. */
+export function setConfigRateLimits(limits?: Partial<RateLimits>): void {
+  state.configLimits = limits ?? {};
+}
+
+export function rateLimits(): RateLimits {
+  const limits = { ...DEFAULT_RATE_LIMITS, ...state.configLimits };
+  const env = Number.parseInt(process.env.SUPERPACK_DIAG_RATE_LIMIT ?? "", 10);
+  if (Number.isFinite(env) && env >= 0) limits.perMinute = env;
+  return limits;
+}
+
+// ---------------------------------------------------------------------------
+// Admission
+// ---------------------------------------------------------------------------
+
+export type DropCount = { flag: AnyFlagName; label: string; sampled: number; rateLimited: number };
+
+/** Records seen per sampled flag */
+const sampleSeen = new Map<AnyFlagName, number>();
+const windows = new Map<string, { start: number; count: number }>();
+const drops = new Map<string, DropCount>();
+
+function countDrop(flag: AnyFlagName, label: string, reason: "sampled" | "rateLimited"): void {
+  const key = `${flag}\0${label}`;
+  let entry = drops.get(key);
+  if (!entry) {
+    entry = { flag, label, sampled: 0, rateLimited: 0 };
+    drops.set(key, entry);
+  }
+  entry[reason]++;
+}
+
+/**
+ * Whether a record for `flag` under `label` should be emitted, given the
+ * flag's sample rate (flagSampleRate). Records turned away are counted for
+ * the next drop summary.
+ */
+export function admitRecord(flag: AnyFlagName, label: string, sampleRate: number, now = Date.now()): boolean {
+  if (sampleRate < 1) {
+    // Keep record n when ceil(n * rate) steps up: the first, then evenly spaced
+    const n = (sampleSeen.get(flag) ?? 0) + 1;
+    sampleSeen.set(flag, n);
+    const kept = (i: number) => Math.ceil(i * sampleRate - 1e-9);
+    if (kept(n) === kept(n - 1)) {
+      countDrop(flag, label, "sampled");
+      return false;
+    }
+  }
+
+  const limits = rateLimits();
+  const limit = limits.labels[label] ?? limits.perMinute;
+  if (limit <= 0) return true;
+  let window = windows.get(label);
+  if (!window || now - window.start >= WINDOW_MS) {
+    window = { start: now, count: 0 };
+    windows.set(label, window);
+  }
+  if (window.count >= limit) {
+    countDrop(flag, label, "rateLimited");
+    return false;
+  }
+  window.count++;
+  return true;
+}
+
+/** Drops counted since the last call, and start counting afresh. */
+export function takeDropCounts(): DropCount[] {
+  const out = [...drops.values()];
+  drops.clear();
+  return out;
+}
+
+/** Forget windows, sample counters and drop counts (for testing). */
+export function resetThrottle(): void {
+  sampleSeen.clear();
+  windows.clear();
+  drops.clear();
+}
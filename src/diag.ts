@@ -2,11 +2,29 @@
  * openclaw-superpack: Diagnostic logger
  *
  * Used by overlay files to emit flag-gated diagnostic output.
- * Writes to stderr so it never pollutes agent responses.
+ *
+ * Every diag call builds one DiagRecord and hands it to each sink. The
+ * stderr sink is always on and renders records as colored text, so output
+ * never pollutes agent responses; oversized dumps are truncated there and
+ * spilled to a file (see diag-spill.ts). A JSON Lines file sink is added when
+ * SUPERPACK_DIAG_FILE (env, wins) or superpack.diagFile (config) is set;
+ * other sinks can be registered with addDiagSink. Records are redacted
+ * (see redact.ts) before any sink sees them unless dump_unredacted is on.
+ * Sampled flags and per-label rate limits are enforced before a record is
+ * built (see diag-throttle.ts); what they drop is summarized once a minute.
+ *
+ * The flag argument is either a flag name, or a flag name with the caller's
+ * agentId/sessionKey so scoped flags (dump_tool_calls@agent=x) apply:
+ *   diag({ flag: "dump_tool_calls", agentId, sessionKey }, "tools", msg)
  */
 
 import { createHash } from "node:crypto";
-import { flag, type FlagName } from "./flags.js";
+import { createJsonlSink } from "./diag-file.js";
+import { dumpLimits, spillDump, truncateDump } from "./diag-spill.js";
+import { admitRecord, SUMMARY_INTERVAL_MS, takeDropCounts } from "./diag-throttle.js";
+import { activeFlags_, flag, flagSampleRate, type AnyFlagName, type FlagScope } from "./flags.js";
+import { redactRecord } from "./redact.js";
+import { diffLines, sectionSummary, toHunks, type DiffHunk, type SectionChange } from "./text-diff.js";
 
 const GRAY = "\x1b[90m";
 const CYAN = "\x1b[36m";
@@ -17,64 +35,325 @@ const RESET = "\x1b[0m";
 const BOLD = "\x1b[1m";
 const DIM = "\x1b[2m";
 
-function ts(): string {
-  return new Date().toISOString().slice(11, 23);
+// ---------------------------------------------------------------------------
+// Records
+// ---------------------------------------------------------------------------
+
+/**
+ * A flag to check, optionally with the scope of the code checking it.
+ * `anyScope` passes when the flag is on for any scope at all, for records
+ * that sum up activity across scopes (the hook timing table).
+ */
+export type DiagFlag = AnyFlagName | ({ flag: AnyFlagName; anyScope?: boolean } & FlagScope);
+
+export type FileOp = "write" | "skip" | "copy" | "filter";
+
+export type DiffPayload = {
+  added: number;
+  removed: number;
+  sections: SectionChange[];
+  hunks: DiffHunk[];
+};
+
+type RecordBase = {
+  /** ISO timestamp */
+  ts: string;
+  flag: AnyFlagName;
+  agentId?: string;
+  sessionKey?: string;
+  label: string;
+  title?: string;
+  /** sha256 (first 12 hex chars) of the content the record describes */
+  hash: string;
+};
+
+export type DiagRecord = RecordBase &
+  (
+    | { level: "info" | "warn" | "error"; payload: string }
+    | { level: "dump"; payload: string }
+    | { level: "list"; payload: string[] }
+    | { level: "file"; payload: { op: FileOp; path: string; detail?: string } }
+    | { level: "diff"; payload: DiffPayload }
+  );
+
+export type DiagLevel = DiagRecord["level"];
+
+/** Receives every record that passes its flag check. Must not throw. */
+export type DiagSink = (record: DiagRecord) => void;
+
+function hash(content: string): string {
+  return createHash("sha256").update(content).digest("hex").slice(0, 12);
 }
 
-function write(color: string, label: string, msg: string): void {
+// ---------------------------------------------------------------------------
+// stderr sink
+// ---------------------------------------------------------------------------
+
+function write(color: string, record: DiagRecord, msg: string): void {
   process.stderr.write(
-    `${GRAY}${ts()}${RESET} ${color}${BOLD}[superpack:${label}]${RESET} ${msg}\n`,
+    `${GRAY}${record.ts.slice(11, 23)}${RESET} ${color}${BOLD}[superpack:${record.label}]${RESET} ${msg}\n`,
   );
 }
 
+function renderToStderr(record: DiagRecord): void {
+  const time = `${GRAY}${record.ts.slice(11, 23)}${RESET}`;
+  const tag = `${CYAN}${BOLD}[superpack:${record.label}]${RESET}`;
+  switch (record.level) {
+    case "info":
+      write(CYAN, record, record.payload);
+      return;
+    case "warn":
+      write(YELLOW, record, `⚠ ${record.payload}`);
+      return;
+    case "error":
+      write(RED, record, `✖ ${record.payload}`);
+      return;
+    case "dump": {
+      const content = record.payload;
+      const lines = content.split("\n").length;
+      const bytes = Buffer.byteLength(content, "utf-8");
+      process.stderr.write(
+        `${time} ${tag} ${GREEN}▼ ${record.title}${RESET} ${DIM}(${lines} lines, ${bytes} bytes, sha256:${record.hash})${RESET}\n`,
+      );
+      const truncated = truncateDump(content, dumpLimits());
+      if (truncated) {
+        let saved: string;
+        try {
+          // Redaction changed the content: keep it apart from a raw spill of the same dump
+          const name = hash(content) === record.hash ? record.hash : `${record.hash}.redacted`;
+          saved = `full body: ${spillDump(name, content)}`;
+        } catch (err) {
+          saved = `full body not saved: ${(err as Error).message}`;
+        }
+        const elided =
+          truncated.elidedLines > 0 ? `${truncated.elidedLines} lines elided` : "middle elided";
+        process.stderr.write(`${truncated.head.join("\n")}\n`);
+        process.stderr.write(
+          `${YELLOW}… ${elided} (${truncated.totalBytes} bytes total) — ${saved}${RESET}\n`,
+        );
+        process.stderr.write(`${truncated.tail.join("\n")}\n`);
+      } else {
+        process.stderr.write(content);
+        if (!content.endsWith("\n")) process.stderr.write("\n");
+      }
+      process.stderr.write(`${time} ${tag} ${GREEN}▲ end ${record.title}${RESET}\n`);
+      return;
+    }
+    case "list":
+      write(CYAN, record, `${record.title} (${record.payload.length}):`);
+      for (const item of record.payload) {
+        process.stderr.write(`  ${DIM}•${RESET} ${item}\n`);
+      }
+      return;
+    case "file": {
+      const { op, path, detail } = record.payload;
+      const opColor = op === "skip" || op === "filter" ? YELLOW : GREEN;
+      const extra = detail ? ` ${DIM}(${detail})${RESET}` : "";
+      write(opColor, record, `${op.toUpperCase().padEnd(6)} ${path}${extra}`);
+      return;
+    }
+    case "diff": {
+      const { added, removed, sections, hunks } = record.payload;
+      write(
+        CYAN,
+        record,
+        `${record.title} changed ${DIM}(${GREEN}+${added}${RESET}${DIM} ${RED}-${removed}${RESET}${DIM} lines)${RESET}`,
+      );
+      for (const s of sections) {
+        process.stderr.write(`  ${s.section}: ${GREEN}+${s.added}${RESET} ${RED}-${s.removed}${RESET} lines\n`);
+      }
+      for (const hunk of hunks) {
+        process.stderr.write(
+          `${CYAN}@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@${RESET}\n`,
+        );
+        for (const op of hunk.ops) {
+          const color = op.kind === "+" ? GREEN : op.kind === "-" ? RED : DIM;
+          process.stderr.write(`${color}${op.kind}${op.line}${RESET}\n`);
+        }
+      }
+      return;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Sink registry
+// ---------------------------------------------------------------------------
+
+type SinkState = {
+  extraSinks: Set<DiagSink>;
+  /** Extra sinks that have thrown, so each failure is reported once */
+  failedSinks: WeakSet<DiagSink>;
+  configDiagFile: string | undefined;
+  fileSink: { path: string; sink: DiagSink } | undefined;
+};
+
+// Like flags.ts, sinks live on globalThis so those registered through the
+// plugin's copy of this module also receive the overlays' records.
+const STATE_KEY = Symbol.for("openclaw-superpack.diag");
+const state = ((globalThis as Record<symbol, unknown>)[STATE_KEY] ??= {
+  extraSinks: new Set(),
+  failedSinks: new WeakSet(),
+  configDiagFile: undefined,
+  fileSink: undefined,
+} satisfies SinkState) as SinkState;
+
+/** Register an additional sink. Returns a function that removes it. */
+export function addDiagSink(sink: DiagSink): () => void {
+  state.extraSinks.add(sink);
+  return () => {
+    state.extraSinks.delete(sink);
+  };
+}
+
+/**
+ * Config-driven JSONL file (superpack.diagFile). SUPERPACK_DIAG_FILE takes
+ * precedence when set. Pass undefined to turn it off.
+ */
+export function setConfigDiagFile(file?: string): void {
+  state.configDiagFile = file?.trim() || undefined;
+}
+
+function currentFileSink(): DiagSink | undefined {
+  const file = process.env.SUPERPACK_DIAG_FILE?.trim() || state.configDiagFile;
+  if (!file) return undefined;
+  if (state.fileSink && state.fileSink.path === file) return state.fileSink.sink;
+  const sink = createJsonlSink(file);
+  state.fileSink = { path: file, sink };
+  return sink;
+}
+
+function emit(raw: DiagRecord): void {
+  const scope = { agentId: raw.agentId, sessionKey: raw.sessionKey };
+  const record = flag("dump_unredacted", scope) ? raw : redactRecord(raw);
+  renderToStderr(record);
+  currentFileSink()?.(record);
+  for (const sink of state.extraSinks) {
+    try {
+      sink(record);
+    } catch (err) {
+      if (state.failedSinks.has(sink)) continue;
+      state.failedSinks.add(sink);
+      process.stderr.write(`[superpack:diag] a diag sink failed: ${(err as Error)?.message ?? String(err)}\n`);
+    }
+  }
+}
+
+let summaryTimer: ReturnType<typeof setTimeout> | undefined;
+
+/** Flag check plus sampling and rate limits. */
+function enabled(f: DiagFlag, label: string): boolean {
+  const name = typeof f === "string" ? f : f.flag;
+  const rate =
+    typeof f === "string"
+      ? flagSampleRate(f)
+      : f.anyScope
+        ? Number(activeFlags_().includes(f.flag))
+        : flagSampleRate(f.flag, f);
+  if (rate === 0) return false;
+  if (admitRecord(name, label, rate)) return true;
+  if (!summaryTimer) {
+    summaryTimer = setTimeout(flushDiagDrops, SUMMARY_INTERVAL_MS);
+    summaryTimer.unref?.();
+  }
+  return false;
+}
+
+function base(f: DiagFlag, label: string, content: string, title?: string): RecordBase {
+  const scope = typeof f === "string" ? { flag: f } : f;
+  return {
+    ts: new Date().toISOString(),
+    flag: scope.flag,
+    ...(scope.agentId !== undefined && { agentId: scope.agentId }),
+    ...(scope.sessionKey !== undefined && { sessionKey: scope.sessionKey }),
+    label,
+    ...(title !== undefined && { title }),
+    hash: hash(content),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
 /**
  * Emit a diagnostic message if the given flag is active.
  */
-export function diag(f: FlagName, label: string, msg: string): void {
-  if (!flag(f)) return;
-  write(CYAN, label, msg);
+export function diag(f: DiagFlag, label: string, msg: string): void {
+  if (!enabled(f, label)) return;
+  emit({ ...base(f, label, msg), level: "info", payload: msg });
 }
 
 /**
  * Emit a diagnostic warning (always shown if flag active).
  */
-export function diagWarn(f: FlagName, label: string, msg: string): void {
-  if (!flag(f)) return;
-  write(YELLOW, label, `⚠ ${msg}`);
+export function diagWarn(f: DiagFlag, label: string, msg: string): void {
+  if (!enabled(f, label)) return;
+  emit({ ...base(f, label, msg), level: "warn", payload: msg });
 }
 
 /**
  * Emit a diagnostic error (always shown if flag active).
  */
-export function diagError(f: FlagName, label: string, msg: string): void {
-  if (!flag(f)) return;
-  write(RED, label, `✖ ${msg}`);
+export function diagError(f: DiagFlag, label: string, msg: string): void {
+  if (!enabled(f, label)) return;
+  emit({ ...base(f, label, msg), level: "error", payload: msg });
 }
 
 /**
  * Dump a large block of text (e.g. system prompt) with header/footer markers.
  */
-export function diagDump(f: FlagName, label: string, title: string, content: string): void {
-  if (!flag(f)) return;
-  const hash = createHash("sha256").update(content).digest("hex").slice(0, 12);
-  const lines = content.split("\n").length;
-  const bytes = Buffer.byteLength(content, "utf-8");
-  const header = `${CYAN}${BOLD}[superpack:${label}]${RESET} ${GREEN}▼ ${title}${RESET} ${DIM}(${lines} lines, ${bytes} bytes, sha256:${hash})${RESET}`;
-  const footer = `${CYAN}${BOLD}[superpack:${label}]${RESET} ${GREEN}▲ end ${title}${RESET}`;
-  process.stderr.write(`${GRAY}${ts()}${RESET} ${header}\n`);
-  process.stderr.write(content);
-  if (!content.endsWith("\n")) process.stderr.write("\n");
-  process.stderr.write(`${GRAY}${ts()}${RESET} ${footer}\n`);
+export function diagDump(f: DiagFlag, label: string, title: string, content: string): void {
+  if (!enabled(f, label)) return;
+  emit({ ...base(f, label, content, title), level: "dump", payload: content });
+}
+
+/**
+ * Show how a block of text changed as a colored unified diff, preceded by a
+ * per-section summary (sections are markdown headings). The record's hash is
+ * that of the new text.
+ */
+export function diagDiff(
+  f: DiagFlag,
+  label: string,
+  title: string,
+  before: string,
+  after: string,
+): void {
+  if (!enabled(f, label)) return;
+  const ops = diffLines(before, after);
+  const payload: DiffPayload = {
+    added: ops.filter((o) => o.kind === "+").length,
+    removed: ops.filter((o) => o.kind === "-").length,
+    sections: sectionSummary(ops),
+    hunks: toHunks(ops),
+  };
+  emit({ ...base(f, label, after, title), level: "diff", payload });
 }
 
 /**
  * Dump a list of items (e.g. file names, tool names).
  */
-export function diagList(f: FlagName, label: string, title: string, items: string[]): void {
-  if (!flag(f)) return;
-  write(CYAN, label, `${title} (${items.length}):`);
-  for (const item of items) {
-    process.stderr.write(`  ${DIM}•${RESET} ${item}\n`);
+export function diagList(f: DiagFlag, label: string, title: string, items: string[]): void {
+  if (!enabled(f, label)) return;
+  emit({ ...base(f, label, items.join("\n"), title), level: "list", payload: items });
+}
+
+/**
+ * Report records dropped by sampling or rate limits since the last summary,
+ * one warning per flag and label. Runs by itself a minute after the first
+ * drop; call it directly to report sooner (e.g. at shutdown).
+ */
+export function flushDiagDrops(): void {
+  clearTimeout(summaryTimer);
+  summaryTimer = undefined;
+  for (const d of takeDropCounts()) {
+    const reasons = [
+      d.rateLimited > 0 && `${d.rateLimited} over the rate limit`,
+      d.sampled > 0 && `${d.sampled} sampled out`,
+    ].filter(Boolean);
+    const msg = `dropped ${d.sampled + d.rateLimited} ${d.flag} record(s): ${reasons.join(", ")}`;
+    emit({ ...base(d.flag, d.label, msg), level: "warn", payload: msg });
   }
 }
 
@@ -82,15 +361,13 @@ export function diagList(f: FlagName, label: string, title: string, items: strin
  * Log a file operation (copy, write, skip) for workspace diagnostics.
  */
 export function diagFile(
-  f: FlagName,
+  f: DiagFlag,
   label: string,
-  op: "write" | "skip" | "copy" | "filter",
+  op: FileOp,
   filePath: string,
   detail?: string,
 ): void {
-  if (!flag(f)) return;
-  const opColor = op === "skip" || op === "filter" ? YELLOW : GREEN;
-  const opLabel = op.toUpperCase().padEnd(6);
-  const extra = detail ? ` ${DIM}(${detail})${RESET}` : "";
-  write(opColor, label, `${opLabel} ${filePath}${extra}`);
+  if (!enabled(f, label)) return;
+  const payload = { op, path: filePath, ...(detail !== undefined && { detail }) };
+  emit({ ...base(f, label, filePath), level: "file", payload });
 }
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { resetFlags, resetRuntimeFlags } from "./flags.js";
+import {
+  applyFlagsAction,
+  formatFlagsStatus,
+  parseFlagsCommand,
+  parseFlagsParams,
+  FLAGS_USAGE,
+} from "./flags-control.js";
+import plugin from "./plugin.js";
+
+describe("runtime flag control", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.SUPERPACK_FLAGS;
+    delete process.env.SUPERPACK_PRESET;
+    resetFlags();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    resetRuntimeFlags();
+    resetFlags();
+  });
+
+  describe("parseFlagsCommand", () => {
+    it("defaults to list", () => {
+      expect(parseFlagsCommand("flags")).toEqual({ action: "list" });
+    });
+
+    it("parses on/off with space- or comma-separated names", () => {
+      expect(parseFlagsCommand("flags on dump_tool_calls, debug_hooks")).toEqual({
+        action: "enable",
+        names: ["dump_tool_calls", "debug_hooks"],
+      });
+      expect(parseFlagsCommand("flags disable dump_tool_calls")).toEqual({
+        action: "disable",
+        names: ["dump_tool_calls"],
+      });
+    });
+
+    it("rejects other subcommands, unknown actions and empty toggles", () => {
+      expect(parseFlagsCommand("")).toEqual({ error: FLAGS_USAGE });
+      expect(parseFlagsCommand("hooks")).toEqual({ error: FLAGS_USAGE });
+      expect(parseFlagsCommand("flags toggle x")).toEqual({ error: 'unknown action "toggle"' });
+      expect(parseFlagsCommand("flags on")).toHaveProperty("error");
+    });
+  });
+
+  describe("parseFlagsParams", () => {
+    it("validates gateway params", () => {
+      expect(parseFlagsParams({})).toEqual({ action: "list" });
+      expect(parseFlagsParams({ action: "enable", flags: ["dump_tool_calls"] })).toEqual({
+        action: "enable",
+        names: ["dump_tool_calls"],
+      });
+      expect(parseFlagsParams({ action: 3 })).toHaveProperty("error");
+      expect(parseFlagsParams({ action: "enable", flags: "dump_tool_calls" })).toHaveProperty("error");
+    });
+  });
+
+  describe("applyFlagsAction", () => {
+    it("returns the resolved active set after each change", () => {
+      process.env.SUPERPACK_FLAGS = "dump_system_prompt";
+      expect(applyFlagsAction({ action: "list" }).active).toEqual(["dump_system_prompt"]);
+
+      const enabled = applyFlagsAction({ action: "enable", names: ["dump_tool_calls", "bogus"] });
+      expect(enabled.active).toEqual(["dump_system_prompt", "dump_tool_calls"]);
+      expect(enabled.unknown).toEqual(["bogus"]);
+
+      const disabled = applyFlagsAction({ action: "disable", names: ["dump_system_prompt"] });
+      expect(disabled.active).toEqual(["dump_tool_calls"]);
+      expect(disabled.runtime).toEqual({ enabled: ["dump_tool_calls"], disabled: ["dump_system_prompt"] });
+
+      expect(applyFlagsAction({ action: "reset" }).active).toEqual(["dump_system_prompt"]);
+    });
+
+    it("formats a status for chat", () => {
+      const text = formatFlagsStatus(applyFlagsAction({ action: "enable", names: ["dump_tool_calls", "x"] }));
+      expect(text).toContain("Active flags (1): dump_tool_calls");
+      expect(text).toContain("Switched on at runtime: dump_tool_calls");
+      expect(text).toContain("Unknown flag or preset: x");
+      expect(formatFlagsStatus(applyFlagsAction({ action: "reset" }))).toBe("No flags active.");
+    });
+  });
+
+  describe("plugin registration", () => {
+    function register() {
+      const methods = new Map<string, Function>();
+      const commands: any[] = [];
+      plugin.register!({
+        registerGatewayMethod: (name: string, handler: Function) => methods.set(name, handler),
+        registerCommand: (command: unknown) => commands.push(command),
+      } as any);
+      return { methods, commands };
+    }
+
+    it("registers the superpack.flags gateway method", () => {
+      const { methods } = register();
+      const calls: unknown[][] = [];
+      const respond = (...args: unknown[]) => calls.push(args);
+
+      methods.get("superpack.flags")!({ params: { action: "enable", flags: ["dump_llm_payload"] }, respond });
+      methods.get("superpack.flags")!({ params: { action: "nope" }, respond });
+
+      expect(calls[0][0]).toBe(true);
+      expect((calls[0][1] as { active: string[] }).active).toEqual(["dump_llm_payload"]);
+      expect(calls[1]).toEqual([false, undefined, { code: "INVALID_REQUEST", message: 'unknown action "nope"' }]);
+    });
+
+    it("registers an auth-only /superpack command", async () => {
+      const { commands } = register();
+      expect(commands).toHaveLength(1);
+      expect(commands[0]).toMatchObject({ name: "superpack", acceptsArgs: true, requireAuth: true });
+
+      const reply = await commands[0].handler({ args: "flags on dump_hook_events" });
+      expect(reply.text).toContain("Active flags (1): dump_hook_events");
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * openclaw-superpack: Runtime flag control
+ *
+ * Shared by the `superpack.flags` gateway method and the `/superpack flags`
+ * chat command (see plugin.ts): list the active flags, switch flags or
+ * presets on and off, or drop all runtime toggles. Changes last until the
+ * gateway restarts.
+ */
+
+import {
+  activeFlags_,
+  disableFlags,
+  enableFlags,
+  listFlags,
+  resetRuntimeFlags,
+  runtimeFlagOverrides,
+  type AnyFlagName,
+} from "./flags.js";
+
+export type FlagsAction =
+  | { action: "list" }
+  | { action: "enable" | "disable"; names: string[] }
+  | { action: "reset" };
+
+export type FlagsStatus = {
+  /** Flags active for at least some scope, after runtime toggles */
+  active: AnyFlagName[];
+  runtime: { enabled: string[]; disabled: AnyFlagName[] };
+  /** Names in the request that are neither flags nor presets */
+  unknown: string[];
+  /** Every flag that can be switched on, including plugin-defined ones */
+  available: Array<{ name: AnyFlagName; description: string; pluginId?: string }>;
+};
+
+export const FLAGS_USAGE =
+  "Usage: /superpack flags [list | on <flag|preset>... | off <flag|preset>... | reset]";
+
+const ACTION_ALIASES: Record<string, FlagsAction["action"]> = {
+  list: "list",
+  on: "enable",
+  enable: "enable",
+  off: "disable",
+  disable: "disable",
+  reset: "reset",
+};
+
+function toAction(verb: string, names: string[]): FlagsAction | { error: string } {
+  const action = ACTION_ALIASES[verb];
+  if (!action) return { error: `unknown action "${verb}"` };
+  if (action === "enable" || action === "disable") {
+    if (names.length === 0) return { error: `"${verb}" needs at least one flag or preset` };
+    return { action, names };
+  }
+  return { action };
+}
+
+/** Parse the arguments of `/superpack` (e.g. "flags on dump_tool_calls"). */
+export function parseFlagsCommand(args: string): FlagsAction | { error: string } {
+  const [sub, verb = "list", ...rest] = args.trim().split(/[\s,]+/).filter(Boolean);
+  if (sub !== "flags") return { error: FLAGS_USAGE };
+  return toAction(verb, rest);
+}
+
+/** Parse `superpack.flags` gateway method params: { action?, flags? }. */
+export function parseFlagsParams(params: Record<string, unknown>): FlagsAction | { error: string } {
+  const verb = params.action ?? "list";
+  if (typeof verb !== "string") return { error: "action must be a string" };
+  const names = params.flags ?? [];
+  if (!Array.isArray(names) || !names.every((n) => typeof n === "string")) {
+    return { error: "flags must be an array of strings" };
+  }
+  return toAction(verb, names);
+}
+
+export function applyFlagsAction(action: FlagsAction): FlagsStatus {
+  let unknown: string[] = [];
+  if (action.action === "enable") unknown = enableFlags(action.names);
+  else if (action.action === "disable") unknown = disableFlags(action.names);
+  else if (action.action === "reset") resetRuntimeFlags();
+
+  const runtime = runtimeFlagOverrides();
+  return {
+    active: [...activeFlags_()],
+    runtime: { enabled: [...runtime.enabled], disabled: [...runtime.disabled] },
+    unknown,
+    available: listFlags(),
+  };
+}
+
+/** Chat reply for a flags status. */
+export function formatFlagsStatus(status: FlagsStatus): string {
+  const lines = [
+    status.active.length > 0
+      ? `Active flags (${status.active.length}): ${status.active.join(", ")}`
+      : "No flags active.",
+  ];
+  if (status.runtime.enabled.length > 0) {
+    lines.push(`Switched on at runtime: ${status.runtime.enabled.join(", ")}`);
+  }
+  if (status.runtime.disabled.length > 0) {
+    lines.push(`Switched off at runtime: ${status.runtime.disabled.join(", ")}`);
+  }
+  const pluginFlags = status.available.filter((f) => f.pluginId !== undefined);
+  if (pluginFlags.length > 0) {
+    lines.push(`Plugin flags: ${pluginFlags.map((f) => f.name).join(", ")}`);
+  }
+  if (status.unknown.length > 0) {
+    lines.push(`Unknown flag or preset: ${[...new Set(status.unknown)].join(", ")}`);
+  }
+  return lines.join("\n");
+}
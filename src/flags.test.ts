@@ -1,5 +1,17 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { flag, setConfigFlags, resetFlags, activeFlags_, ALL_FLAG_NAMES } from "./flags.js";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  flag,
+  setConfigFlags,
+  resetFlags,
+  activeFlags_,
+  ALL_FLAG_NAMES,
+  enableFlags,
+  disableFlags,
+  resetRuntimeFlags,
+  runtimeFlagOverrides,
+  setConfigPresets,
+  flagSampleRate,
+} from "./flags.js";
 
 describe("feature flags", () => {
   const originalEnv = { ...process.env };
@@ -13,9 +25,21 @@ describe("feature flags", () => {
   afterEach(() => {
     process.env = { ...originalEnv };
     resetFlags();
+    resetRuntimeFlags();
     setConfigFlags([], undefined);
+    setConfigPresets(undefined);
+    vi.restoreAllMocks();
   });
 
+  function captureStderr(): string[] {
+    const out: string[] = [];
+    vi.spyOn(process.stderr, "write").mockImplementation((chunk) => {
+      out.push(String(chunk));
+      return true;
+    });
+    return out;
+  }
+
   describe("env: SUPERPACK_FLAGS", () => {
     it("enables a single flag", () => {
       process.env.SUPERPACK_FLAGS = "dump_system_prompt";
@@ -48,13 +72,19 @@ describe("feature flags", () => {
       expect(flag("dump_tool_calls")).toBe(false);
     });
 
-    it("debug_all enables every flag", () => {
+    it("debug_all enables every flag except dump_unredacted", () => {
       process.env.SUPERPACK_PRESET = "debug_all";
       for (const name of ALL_FLAG_NAMES) {
-        expect(flag(name)).toBe(true);
+        expect(flag(name)).toBe(name !== "dump_unredacted");
       }
     });
 
+    it("dump_unredacted has to be named explicitly", () => {
+      process.env.SUPERPACK_PRESET = "debug_all";
+      process.env.SUPERPACK_FLAGS = "dump_unredacted";
+      expect(flag("dump_unredacted")).toBe(true);
+    });
+
     it("debug_workspace enables workspace flags", () => {
       process.env.SUPERPACK_PRESET = "debug_workspace";
       expect(flag("dump_bootstrap_files")).toBe(true);
@@ -92,6 +122,230 @@ describe("feature flags", () => {
     });
   });
 
+  describe("scoped flags", () => {
+    it("enables a flag only for the matching agent", () => {
+      process.env.SUPERPACK_FLAGS = "dump_system_prompt@agent=code-only";
+      expect(flag("dump_system_prompt", { agentId: "code-only" })).toBe(true);
+      expect(flag("dump_system_prompt", { agentId: "main" })).toBe(false);
+    });
+
+    it("is off for checks without a scope", () => {
+      process.env.SUPERPACK_FLAGS = "dump_system_prompt@agent=code-only";
+      expect(flag("dump_system_prompt")).toBe(false);
+      expect(activeFlags_()).toEqual(["dump_system_prompt"]);
+    });
+
+    it("matches session keys with globs", () => {
+      process.env.SUPERPACK_FLAGS = "dump_tool_calls@session=agent:main:*";
+      expect(flag("dump_tool_calls", { sessionKey: "agent:main:subagent:42" })).toBe(true);
+      expect(flag("dump_tool_calls", { sessionKey: "agent:other:main" })).toBe(false);
+      expect(flag("dump_tool_calls", { agentId: "main" })).toBe(false);
+    });
+
+    it("requires every condition to match", () => {
+      process.env.SUPERPACK_FLAGS = "dump_tool_calls@agent=main@session=*:cron:*";
+      expect(flag("dump_tool_calls", { agentId: "main", sessionKey: "agent:main:cron:1" })).toBe(true);
+      expect(flag("dump_tool_calls", { agentId: "main", sessionKey: "agent:main:main" })).toBe(false);
+      expect(flag("dump_tool_calls", { agentId: "other", sessionKey: "agent:other:cron:1" })).toBe(false);
+    });
+
+    it("treats glob metacharacters other than * literally", () => {
+      process.env.SUPERPACK_FLAGS = "dump_tool_calls@agent=a.b";
+      expect(flag("dump_tool_calls", { agentId: "a.b" })).toBe(true);
+      expect(flag("dump_tool_calls", { agentId: "axb" })).toBe(false);
+    });
+
+    it("a global entry wins over a scoped one for the same flag", () => {
+      process.env.SUPERPACK_FLAGS = "dump_tool_calls@agent=main,dump_tool_calls";
+      expect(flag("dump_tool_calls")).toBe(true);
+      expect(flag("dump_tool_calls", { agentId: "other" })).toBe(true);
+    });
+
+    it("accepts scoped expressions from config", () => {
+      setConfigFlags(["dump_llm_payload@agent=helper"], undefined);
+      expect(flag("dump_llm_payload", { agentId: "helper" })).toBe(true);
+      expect(flag("dump_llm_payload", { agentId: "main" })).toBe(false);
+    });
+
+    it("ignores unknown scope keys and malformed conditions", () => {
+      process.env.SUPERPACK_FLAGS = "dump_tool_calls@channel=x,dump_llm_payload@agent,dump_system_prompt@agent=";
+      expect(activeFlags_()).toHaveLength(0);
+    });
+  });
+
+  describe("sampling", () => {
+    it("reads a rate after the flag name, with or without a scope", () => {
+      process.env.SUPERPACK_FLAGS = "dump_tool_calls:0.1,dump_tool_results:0.5@session=agent:main:*";
+      expect(flag("dump_tool_calls")).toBe(true);
+      expect(flagSampleRate("dump_tool_calls")).toBe(0.1);
+      expect(flagSampleRate("dump_tool_results")).toBe(0);
+      expect(flagSampleRate("dump_tool_results", { sessionKey: "agent:main:x" })).toBe(0.5);
+    });
+
+    it("is 1 for unsampled flags and takes the highest matching rate", () => {
+      process.env.SUPERPACK_FLAGS = "dump_system_prompt,dump_tool_calls:0.1,dump_tool_calls:0.3@agent=main";
+      expect(flagSampleRate("dump_system_prompt")).toBe(1);
+      expect(flagSampleRate("dump_tool_calls", { agentId: "main" })).toBe(0.3);
+      expect(flagSampleRate("dump_hook_events")).toBe(0);
+    });
+
+    it("rejects rates outside (0, 1]", () => {
+      const err = captureStderr();
+      process.env.SUPERPACK_FLAGS = "dump_tool_calls:0,dump_tool_results:2,dump_hook_events:x,dump_llm_payload:";
+      expect(activeFlags_()).toEqual([]);
+      expect(err).toHaveLength(4);
+      expect(err[0]).toContain('invalid flag expression "dump_tool_calls:0" in SUPERPACK_FLAGS');
+    });
+  });
+
+  describe("runtime toggles", () => {
+    it("enables flags and presets on top of env", () => {
+      process.env.SUPERPACK_FLAGS = "dump_system_prompt";
+      expect(enableFlags(["dump_tool_calls", "debug_hooks"])).toEqual([]);
+      expect(flag("dump_system_prompt")).toBe(true);
+      expect(flag("dump_tool_calls")).toBe(true);
+      expect(flag("dump_hook_timing")).toBe(true);
+    });
+
+    it("disables flags whichever source enabled them", () => {
+      process.env.SUPERPACK_PRESET = "debug_prompts";
+      setConfigFlags(["dump_tool_calls"], undefined);
+      disableFlags(["dump_system_prompt", "dump_tool_calls"]);
+      expect(flag("dump_system_prompt")).toBe(false);
+      expect(flag("dump_tool_calls")).toBe(false);
+      expect(flag("dump_bootstrap_files")).toBe(true);
+    });
+
+    it("disabling a preset switches off all its flags", () => {
+      process.env.SUPERPACK_PRESET = "debug_all";
+      disableFlags(["debug_llm"]);
+      expect(flag("dump_llm_payload")).toBe(false);
+      expect(flag("dump_llm_response")).toBe(false);
+      expect(flag("dump_tool_calls")).toBe(true);
+    });
+
+    it("re-enabling undoes a disable and vice versa", () => {
+      disableFlags(["dump_tool_calls"]);
+      enableFlags(["dump_tool_calls@agent=main"]);
+      expect(flag("dump_tool_calls", { agentId: "main" })).toBe(true);
+      expect(runtimeFlagOverrides()).toEqual({ enabled: ["dump_tool_calls@agent=main"], disabled: [] });
+
+      disableFlags(["dump_tool_calls"]);
+      expect(flag("dump_tool_calls", { agentId: "main" })).toBe(false);
+      expect(runtimeFlagOverrides()).toEqual({ enabled: [], disabled: ["dump_tool_calls"] });
+    });
+
+    it("returns unrecognized names and applies the rest", () => {
+      expect(enableFlags(["nope", "dump_tool_calls"])).toEqual(["nope"]);
+      expect(disableFlags(["also_nope"])).toEqual(["also_nope"]);
+      expect(activeFlags_()).toEqual(["dump_tool_calls"]);
+    });
+
+    it("resetRuntimeFlags goes back to env + config", () => {
+      process.env.SUPERPACK_FLAGS = "dump_system_prompt";
+      disableFlags(["dump_system_prompt"]);
+      enableFlags(["dump_tool_calls"]);
+      resetRuntimeFlags();
+      expect(activeFlags_()).toEqual(["dump_system_prompt"]);
+    });
+  });
+
+  describe("config presets", () => {
+    it("enables a custom preset from config or env", () => {
+      setConfigPresets({ mine: ["dump_tool_calls", "dump_hook_timing"] });
+      setConfigFlags([], "mine");
+      expect(activeFlags_()).toEqual(["dump_tool_calls", "dump_hook_timing"]);
+      setConfigFlags([], undefined);
+      process.env.SUPERPACK_PRESET = "mine";
+      resetFlags();
+      expect(activeFlags_()).toEqual(["dump_tool_calls", "dump_hook_timing"]);
+    });
+
+    it("expands nested presets, built-in and custom", () => {
+      setConfigPresets({
+        inner: ["debug_hooks", "dump_llm_payload@agent=main"],
+        outer: ["inner", "dump_tool_calls"],
+      });
+      setConfigFlags([], "outer");
+      expect(flag("dump_hook_events")).toBe(true);
+      expect(flag("dump_hook_timing")).toBe(true);
+      expect(flag("dump_tool_calls")).toBe(true);
+      expect(flag("dump_llm_payload")).toBe(false);
+      expect(flag("dump_llm_payload", { agentId: "main" })).toBe(true);
+    });
+
+    it("stops at cycles with a warning", () => {
+      const err = captureStderr();
+      setConfigPresets({ a: ["dump_tool_calls", "b"], b: ["a", "dump_hook_events"] });
+      setConfigFlags([], "a");
+      expect(activeFlags_()).toEqual(["dump_tool_calls", "dump_hook_events"]);
+      expect(err.join("")).toContain("preset cycle a → b → a");
+    });
+
+    it("built-in presets win over custom ones with the same name", () => {
+      const err = captureStderr();
+      setConfigPresets({ debug_hooks: ["dump_tool_calls"] });
+      setConfigFlags([], "debug_hooks");
+      expect(activeFlags_()).toEqual(["dump_hook_events", "dump_hook_timing"]);
+      expect(err.join("")).toContain('"debug_hooks" is a built-in preset');
+    });
+
+    it("can be switched on and off at runtime", () => {
+      setConfigPresets({ mine: ["debug_llm", "dump_tool_calls"] });
+      expect(enableFlags(["mine"])).toEqual([]);
+      expect(activeFlags_()).toEqual(["dump_llm_payload", "dump_llm_response", "dump_tool_calls"]);
+      expect(disableFlags(["mine"])).toEqual([]);
+      expect(activeFlags_()).toEqual([]);
+    });
+  });
+
+  describe("validation warnings", () => {
+    it("names the unknown flag, its source and the closest match", () => {
+      const err = captureStderr();
+      process.env.SUPERPACK_FLAGS = "dump_tool_call,dump_system_prompt";
+      setConfigFlags(["dump_hook_timming"], undefined);
+      expect(activeFlags_()).toEqual(["dump_system_prompt"]);
+      expect(err).toEqual([
+        '[superpack:flags] ⚠ unknown flag "dump_hook_timming" in superpack.flags — did you mean "dump_hook_timing"?\n',
+        '[superpack:flags] ⚠ unknown flag "dump_tool_call" in SUPERPACK_FLAGS — did you mean "dump_tool_calls"?\n',
+      ]);
+    });
+
+    it("suggests presets for unknown preset names", () => {
+      const err = captureStderr();
+      setConfigPresets({ mine: ["dump_tool_calls"] });
+      process.env.SUPERPACK_PRESET = "mien";
+      activeFlags_();
+      expect(err.join("")).toContain('unknown preset "mien" in SUPERPACK_PRESET — did you mean "mine"?');
+    });
+
+    it("leaves out the hint when nothing is close", () => {
+      const err = captureStderr();
+      process.env.SUPERPACK_FLAGS = "verbose";
+      activeFlags_();
+      expect(err).toEqual(['[superpack:flags] ⚠ unknown flag "verbose" in SUPERPACK_FLAGS\n']);
+    });
+
+    it("reports bad entries inside custom presets", () => {
+      const err = captureStderr();
+      setConfigPresets({ mine: ["debug_hoks", "dump_tool_calls@user=x"] });
+      setConfigFlags([], "mine");
+      activeFlags_();
+      const text = err.join("");
+      expect(text).toContain('unknown flag or preset "debug_hoks" in superpack.presets.mine — did you mean "debug_hooks"?');
+      expect(text).toContain('invalid flag expression "dump_tool_calls@user=x" in superpack.presets.mine');
+    });
+
+    it("warns once per problem, not on every resolve", () => {
+      const err = captureStderr();
+      process.env.SUPERPACK_FLAGS = "dump_tool_call";
+      activeFlags_();
+      enableFlags(["dump_hook_events"]);
+      activeFlags_();
+      expect(err).toHaveLength(1);
+    });
+  });
+
   describe("resetFlags", () => {
     it("clears cached state so flags re-resolve", () => {
       process.env.SUPERPACK_FLAGS = "dump_system_prompt";
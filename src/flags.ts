@@ -7,6 +7,26 @@
  *   - env: SUPERPACK_PRESET=debug_prompts
  *   - config: superpack.flags: ["dump_system_prompt"]
  *   - config: superpack.preset: "debug_prompts"
+ *   - config: superpack.presets: { mine: ["dump_tool_calls", "debug_hooks"] }
+ *     (custom presets; may include other presets)
+ *
+ * Unknown flag and preset names are skipped with a one-time warning on
+ * stderr that suggests the closest known name.
+ *
+ * A flag can be scoped to one agent or to matching sessions by appending
+ * conditions, each a glob where `*` matches anything:
+ *   SUPERPACK_FLAGS=dump_system_prompt@agent=code-only,dump_tool_calls@session=agent:main:*
+ * Several conditions (`@agent=x@session=y`) must all match. Scoped flags are
+ * only on for flag(name, scope) calls whose scope matches; presets are global.
+ *
+ * Plugins add their own flags at runtime with definePluginFlag (exposed to
+ * them as api.superpack.defineFlag, see plugin-api.ts). Those are namespaced
+ * by plugin id — memory-lancedb.dump_recall — and otherwise behave like the
+ * built-in ones: env, config, custom presets, scopes and debug_all.
+ *
+ * A rate after the name samples high-volume flags: dump_tool_calls:0.1 keeps
+ * one record in ten. flag() still reports the flag as on; diag.ts applies the
+ * rate (see flagSampleRate).
  */
 
 // ---------------------------------------------------------------------------
@@ -37,11 +57,20 @@ export const FLAGS = {
   // Network / model diagnostics
   dump_llm_payload: "Log full LLM request payload (system + messages)",
   dump_llm_response: "Log full LLM response content",
+
+  // Output control
+  dump_unredacted: "Turn off secret redaction in diag output (never part of a preset)",
 } as const;
 
 export type FlagName = keyof typeof FLAGS;
 export const ALL_FLAG_NAMES = Object.keys(FLAGS) as FlagName[];
 
+/** A flag defined by a plugin: "<pluginId>.<name>" */
+export type PluginFlagName = `${string}.${string}`;
+
+/** Built-in or plugin flag */
+export type AnyFlagName = FlagName | PluginFlagName;
+
 // ---------------------------------------------------------------------------
 // Presets — convenience groups
 // ---------------------------------------------------------------------------
@@ -73,58 +102,309 @@ export const PRESETS = {
     "dump_llm_payload",
     "dump_llm_response",
   ],
-  debug_all: ALL_FLAG_NAMES,
+  debug_all: ALL_FLAG_NAMES.filter((f) => f !== "dump_unredacted"),
 } as const satisfies Record<string, readonly FlagName[]>;
 
 export type PresetName = keyof typeof PRESETS;
 
+// ---------------------------------------------------------------------------
+// Scopes
+// ---------------------------------------------------------------------------
+
+/** Who a flag check is for. Overlays pass whatever they know. */
+export type FlagScope = { agentId?: string; sessionKey?: string };
+
+/**
+ * Conditions a scoped flag expression puts on FlagScope (empty means global),
+ * and the share of records to keep when it is sampled.
+ */
+type FlagRule = { agent?: RegExp; session?: RegExp; sample?: number };
+
+const SCOPE_KEYS = { agent: "agentId", session: "sessionKey" } as const;
+
+function globToRegExp(glob: string): RegExp {
+  const body = glob
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}$`);
+}
+
+/** The flag name in an expression, without rate or conditions. */
+function exprName(expr: string): string {
+  return expr.split("@")[0].split(":")[0].trim();
+}
+
+/**
+ * Parse "name[:rate][@agent=glob][@session=glob]". Returns undefined for
+ * unknown flag names, rates outside (0, 1] and malformed conditions.
+ */
+function parseFlagExpr(expr: string): { name: AnyFlagName; rule: FlagRule } | undefined {
+  const [head, ...conditions] = expr.trim().split("@");
+  const [name, rate, ...rest] = head.split(":");
+  if (!isFlag(name) || rest.length > 0) return undefined;
+  const rule: FlagRule = {};
+  if (rate !== undefined) {
+    const sample = Number(rate);
+    if (!rate.trim() || !(sample > 0 && sample <= 1)) return undefined;
+    rule.sample = sample;
+  }
+  for (const condition of conditions) {
+    const eq = condition.indexOf("=");
+    const key = condition.slice(0, eq).trim();
+    const glob = condition.slice(eq + 1).trim();
+    if (eq < 0 || !glob || (key !== "agent" && key !== "session")) return undefined;
+    rule[key] = globToRegExp(glob);
+  }
+  return { name, rule };
+}
+
+function ruleMatches(rule: FlagRule, scope: FlagScope | undefined): boolean {
+  for (const key of ["agent", "session"] as const) {
+    const pattern = rule[key];
+    if (!pattern) continue;
+    const value = scope?.[SCOPE_KEYS[key]];
+    if (value === undefined || !pattern.test(value)) return false;
+  }
+  return true;
+}
+
 // ---------------------------------------------------------------------------
 // Resolution — env + config merge
 // ---------------------------------------------------------------------------
 
-let activeFlags: Set<FlagName> | null = null;
-let configFlags: FlagName[] = [];
-let configPreset: PresetName | undefined;
+type FlagState = {
+  active: Map<AnyFlagName, FlagRule[]> | null;
+  configFlags: string[];
+  configPreset: string | undefined;
+  /** Custom presets from config: entries are flag expressions or preset names */
+  configPresets: Record<string, string[]>;
+  /** Warnings already printed, so each shows once per process */
+  warned: Set<string>;
+  /** Flag expressions switched on at runtime (gateway method, /superpack flags) */
+  runtimeEnabled: string[];
+  /** Flags switched off at runtime, whatever enabled them */
+  runtimeDisabled: Set<AnyFlagName>;
+  /** Flags defined by plugins, by full name */
+  pluginFlags: Map<PluginFlagName, PluginFlag>;
+};
+
+// The gateway can hold two copies of this module: the one bundled into
+// openclaw with the overlays, and the one the superpack plugin loads. State
+// lives on globalThis so runtime toggles from the plugin reach the overlays.
+const STATE_KEY = Symbol.for("openclaw-superpack.flags");
+const state = ((globalThis as Record<symbol, unknown>)[STATE_KEY] ??= {
+  active: null,
+  configFlags: [],
+  configPreset: undefined,
+  configPresets: {},
+  warned: new Set(),
+  runtimeEnabled: [],
+  runtimeDisabled: new Set(),
+  pluginFlags: new Map(),
+} satisfies FlagState) as FlagState;
 
 /**
  * Called once at startup (or from overlay code) to inject config-driven flags.
  * Can be called again to update at runtime.
  */
 export function setConfigFlags(flags?: string[], preset?: string): void {
-  configFlags = (flags ?? []).filter((f): f is FlagName => f in FLAGS);
-  configPreset = preset && preset in PRESETS ? (preset as PresetName) : undefined;
-  activeFlags = null; // bust cache
+  state.configFlags = flags ?? [];
+  state.configPreset = preset?.trim() || undefined;
+  state.active = null; // bust cache
 }
 
-function resolve(): Set<FlagName> {
-  if (activeFlags) return activeFlags;
+/**
+ * Custom presets from config (superpack.presets). Names that clash with a
+ * built-in preset are ignored with a warning.
+ */
+export function setConfigPresets(presets?: Record<string, string[]>): void {
+  state.configPresets = presets ?? {};
+  state.active = null;
+}
 
-  const result = new Set<FlagName>();
+// ---------------------------------------------------------------------------
+// Plugin flags
+// ---------------------------------------------------------------------------
 
-  // 1. Config preset
-  if (configPreset) {
-    for (const f of PRESETS[configPreset]) result.add(f);
+export type PluginFlag = { pluginId: string; description: string };
+
+/** Plugin ids and flag names: nothing that means something in a flag expression */
+const PLUGIN_FLAG_PART = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Define a flag for a plugin and return its full name. Defining it again
+ * updates the description. Throws on ids or names that would not survive
+ * parsing as part of a flag expression.
+ */
+export function definePluginFlag(pluginId: string, name: string, description: string): PluginFlagName {
+  if (!PLUGIN_FLAG_PART.test(pluginId)) throw new Error(`superpack: invalid plugin id "${pluginId}" for a flag`);
+  if (!PLUGIN_FLAG_PART.test(name)) {
+    throw new Error(`superpack: invalid flag name "${name}" (letters, digits, _ and - only)`);
+  }
+  const full: PluginFlagName = `${pluginId}.${name}`;
+  state.pluginFlags.set(full, { pluginId, description });
+  state.active = null; // env/config may already name it
+  return full;
+}
+
+/** Forget every plugin-defined flag (for testing). */
+export function resetPluginFlags(): void {
+  state.pluginFlags.clear();
+  state.active = null;
+}
+
+function isFlag(name: string): name is AnyFlagName {
+  return name in FLAGS || state.pluginFlags.has(name as PluginFlagName);
+}
+
+function allFlagNames(): AnyFlagName[] {
+  return [...ALL_FLAG_NAMES, ...state.pluginFlags.keys()];
+}
+
+/** Every known flag with its description, built-in ones first. */
+export function listFlags(): Array<{ name: AnyFlagName; description: string; pluginId?: string }> {
+  return [
+    ...ALL_FLAG_NAMES.map((name) => ({ name, description: FLAGS[name] as string })),
+    ...[...state.pluginFlags].map(([name, { pluginId, description }]) => ({ name, description, pluginId })),
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// Validation warnings
+// ---------------------------------------------------------------------------
+
+function warnOnce(message: string): void {
+  if (state.warned.has(message)) return;
+  state.warned.add(message);
+  process.stderr.write(`[superpack:flags] ⚠ ${message}\n`);
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
   }
+  return prev[b.length];
+}
+
+/** Closest candidate within a few edits, for "did you mean" hints. */
+function suggest(name: string, candidates: Iterable<string>): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(name.length / 3)) + 1;
+  for (const candidate of candidates) {
+    const d = editDistance(name, candidate);
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+function presetNames(): string[] {
+  return [...Object.keys(PRESETS), ...Object.keys(state.configPresets)];
+}
+
+function warnUnknown(kind: "flag" | "preset" | "flag or preset", name: string, source: string): void {
+  // A plugin that has defined no flags yet may simply not be loaded yet
+  const pluginId = name.includes(".") ? name.slice(0, name.indexOf(".")) : undefined;
+  if (pluginId !== undefined && ![...state.pluginFlags.values()].some((f) => f.pluginId === pluginId)) return;
+  const candidates =
+    kind === "flag" ? allFlagNames() : kind === "preset" ? presetNames() : [...allFlagNames(), ...presetNames()];
+  const hint = suggest(name, candidates);
+  warnOnce(`unknown ${kind} "${name}" in ${source}${hint ? ` — did you mean "${hint}"?` : ""}`);
+}
+
+/** Warn about an expression parseFlagExpr rejected. */
+function warnBadExpr(expr: string, source: string): void {
+  const name = exprName(expr);
+  if (isFlag(name)) {
+    warnOnce(`invalid flag expression "${expr}" in ${source} (expected name[:rate][@agent=…][@session=…])`);
+  } else {
+    warnUnknown("flag", name, source);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Presets
+// ---------------------------------------------------------------------------
+
+/**
+ * Flag expressions a preset stands for, expanding nested presets; undefined
+ * if `name` is no preset. Bad entries and cycles are skipped with a warning.
+ */
+function expandPreset(name: string, trail: string[] = []): string[] | undefined {
+  if (name in PRESETS) {
+    const exprs: string[] = [...PRESETS[name as PresetName]];
+    if (name === "debug_all") exprs.push(...state.pluginFlags.keys());
+    return exprs;
+  }
+  if (!Object.hasOwn(state.configPresets, name)) return undefined;
+  if (trail.includes(name)) {
+    warnOnce(`preset cycle ${[...trail, name].join(" → ")} in superpack.presets`);
+    return [];
+  }
+  const out: string[] = [];
+  for (const raw of state.configPresets[name]) {
+    const entry = raw.trim();
+    const nested = expandPreset(entry, [...trail, name]);
+    if (nested) out.push(...nested);
+    else if (parseFlagExpr(entry)) out.push(entry);
+    else if (isFlag(exprName(entry)) || entry.includes("@")) warnBadExpr(entry, `superpack.presets.${name}`);
+    else warnUnknown("flag or preset", entry, `superpack.presets.${name}`);
+  }
+  return out;
+}
+
+function resolve(): Map<AnyFlagName, FlagRule[]> {
+  if (state.active) return state.active;
+
+  for (const name of Object.keys(state.configPresets)) {
+    if (name in PRESETS) warnOnce(`superpack.presets.${name} is ignored: "${name}" is a built-in preset`);
+  }
+
+  const result = new Map<AnyFlagName, FlagRule[]>();
+  const add = (name: AnyFlagName, rule: FlagRule = {}) => {
+    if (!result.has(name)) result.set(name, []);
+    result.get(name)!.push(rule);
+  };
+  const addExpr = (expr: string, source: string) => {
+    const parsed = parseFlagExpr(expr);
+    if (parsed) add(parsed.name, parsed.rule);
+    else if (expr.trim()) warnBadExpr(expr.trim(), source);
+  };
+  const addPreset = (name: string, source: string) => {
+    const exprs = expandPreset(name);
+    if (!exprs) return warnUnknown("preset", name, source);
+    for (const expr of exprs) addExpr(expr, source);
+  };
+
+  // 1. Config preset
+  if (state.configPreset) addPreset(state.configPreset, "superpack.preset");
 
   // 2. Config flags
-  for (const f of configFlags) result.add(f);
+  for (const f of state.configFlags) addExpr(f, "superpack.flags");
 
   // 3. Env preset (overrides config)
   const envPreset = process.env.SUPERPACK_PRESET?.trim();
-  if (envPreset && envPreset in PRESETS) {
-    for (const f of PRESETS[envPreset as PresetName]) result.add(f);
-  }
+  if (envPreset) addPreset(envPreset, "SUPERPACK_PRESET");
 
   // 4. Env flags (additive)
   const envFlags = process.env.SUPERPACK_FLAGS?.trim();
   if (envFlags) {
-    for (const raw of envFlags.split(",")) {
-      const f = raw.trim();
-      if (f in FLAGS) result.add(f as FlagName);
-    }
+    for (const raw of envFlags.split(",")) addExpr(raw, "SUPERPACK_FLAGS");
   }
 
-  activeFlags = result;
+  // 5. Runtime toggles (win over everything above)
+  for (const f of state.runtimeEnabled) addExpr(f, "runtime toggles");
+  for (const f of state.runtimeDisabled) result.delete(f);
+
+  state.active = result;
   return result;
 }
 
@@ -132,17 +412,95 @@ function resolve(): Set<FlagName> {
 // Public API
 // ---------------------------------------------------------------------------
 
-/** Check if a specific flag is active */
-export function flag(name: FlagName): boolean {
-  return resolve().has(name);
+/**
+ * Check if a specific flag is active. Without a scope only globally enabled
+ * flags count; with one, scoped expressions matching it count too.
+ */
+export function flag(name: AnyFlagName, scope?: FlagScope): boolean {
+  return resolve().get(name)?.some((rule) => ruleMatches(rule, scope)) ?? false;
+}
+
+/**
+ * Share of records to keep for a flag, in (0, 1]; 0 when it is off for this
+ * scope. An unsampled matching expression means every record (1).
+ */
+export function flagSampleRate(name: AnyFlagName, scope?: FlagScope): number {
+  let rate = 0;
+  for (const rule of resolve().get(name) ?? []) {
+    if (ruleMatches(rule, scope)) rate = Math.max(rate, rule.sample ?? 1);
+  }
+  return rate;
 }
 
-/** Get all active flags */
-export function activeFlags_(): readonly FlagName[] {
-  return [...resolve()];
+/** Get all flags that are active for at least some scope */
+export function activeFlags_(): readonly AnyFlagName[] {
+  return [...resolve().keys()];
 }
 
-/** Reset cache (for testing or runtime config reload) */
+/** Reset cache and re-arm warnings (for testing or runtime config reload) */
 export function resetFlags(): void {
-  activeFlags = null;
+  state.active = null;
+  state.warned.clear();
+}
+
+// ---------------------------------------------------------------------------
+// Runtime toggles
+// ---------------------------------------------------------------------------
+
+/**
+ * Switch flags on until the gateway restarts. Accepts flag expressions
+ * (including scoped ones) and preset names. Returns the names it did not
+ * recognize; the rest are applied.
+ */
+export function enableFlags(names: string[]): string[] {
+  const unknown: string[] = [];
+  for (const raw of names) {
+    const name = raw.trim();
+    for (const expr of expandPreset(name) ?? [name]) {
+      const parsed = parseFlagExpr(expr);
+      if (!parsed) {
+        unknown.push(name);
+        continue;
+      }
+      state.runtimeDisabled.delete(parsed.name);
+      if (!state.runtimeEnabled.includes(expr)) state.runtimeEnabled.push(expr);
+    }
+  }
+  state.active = null;
+  return unknown;
+}
+
+/**
+ * Switch flags off until the gateway restarts, whichever source enabled
+ * them. Accepts flag names and preset names. Returns the names it did not
+ * recognize; the rest are applied.
+ */
+export function disableFlags(names: string[]): string[] {
+  const unknown: string[] = [];
+  for (const raw of names) {
+    const name = raw.trim();
+    const flags = expandPreset(name)?.map(exprName) ?? [name];
+    for (const f of flags) {
+      if (!isFlag(f)) {
+        unknown.push(name);
+        continue;
+      }
+      state.runtimeDisabled.add(f);
+      state.runtimeEnabled = state.runtimeEnabled.filter((e) => parseFlagExpr(e)?.name !== f);
+    }
+  }
+  state.active = null;
+  return unknown;
+}
+
+/** Drop every runtime toggle, back to env + config */
+export function resetRuntimeFlags(): void {
+  state.runtimeEnabled = [];
+  state.runtimeDisabled.clear();
+  state.active = null;
+}
+
+/** Runtime toggles currently in effect */
+export function runtimeFlagOverrides(): { enabled: readonly string[]; disabled: readonly AnyFlagName[] } {
+  return { enabled: [...state.runtimeEnabled], disabled: [...state.runtimeDisabled] };
 }
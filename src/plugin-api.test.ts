@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { addDiagSink, type DiagRecord } from "./diag.js";
+import { applyFlagsAction, formatFlagsStatus } from "./flags-control.js";
+import { activeFlags_, resetFlags, resetPluginFlags, resetRuntimeFlags } from "./flags.js";
+import { createSuperpackPluginApi } from "./plugin-api.js";
+import { redact, resetRedaction } from "./redact.js";
+
+describe("plugin diagnostics API", () => {
+  const originalEnv = { ...process.env };
+  let stderr: string[];
+
+  beforeEach(() => {
+    delete process.env.SUPERPACK_FLAGS;
+    delete process.env.SUPERPACK_PRESET;
+    resetFlags();
+    stderr = [];
+    vi.spyOn(process.stderr, "write").mockImplementation((chunk) => {
+      stderr.push(String(chunk));
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    process.env = { ...originalEnv };
+    resetPluginFlags();
+    resetRuntimeFlags();
+    resetFlags();
+    resetRedaction();
+  });
+
+  it("namespaces defined flags by plugin id", () => {
+    const api = createSuperpackPluginApi("memory-lancedb");
+    expect(api.defineFlag("dump_recall", "Log every memory recall")).toBe("memory-lancedb.dump_recall");
+    process.env.SUPERPACK_FLAGS = "memory-lancedb.dump_recall";
+    resetFlags();
+    expect(api.flag("dump_recall")).toBe(true);
+    expect(createSuperpackPluginApi("other").flag("dump_recall")).toBe(false);
+  });
+
+  it("picks up env flags named before the plugin defined them", () => {
+    process.env.SUPERPACK_FLAGS = "voice.dump_audio";
+    expect(activeFlags_()).toEqual([]);
+    createSuperpackPluginApi("voice").defineFlag("dump_audio", "Log audio frames");
+    expect(activeFlags_()).toEqual(["voice.dump_audio"]);
+    expect(stderr.join("")).not.toContain("unknown flag");
+  });
+
+  it("emits records under the plugin's flag and label, with scopes", () => {
+    const api = createSuperpackPluginApi("voice");
+    api.defineFlag("dump_audio", "Log audio frames");
+    process.env.SUPERPACK_FLAGS = "voice.dump_audio@agent=main";
+    resetFlags();
+    const seen: DiagRecord[] = [];
+    const remove = addDiagSink((r) => seen.push(r));
+
+    api.diag({ flag: "dump_audio", agentId: "main" }, "stream", "frame 1");
+    api.diag({ flag: "dump_audio", agentId: "other" }, "stream", "frame 2");
+    api.diagList("dump_audio", "stream", "Codecs", ["opus"]);
+    remove();
+
+    expect(seen).toHaveLength(1);
+    expect(seen[0]).toMatchObject({ flag: "voice.dump_audio", label: "voice/stream", agentId: "main" });
+    expect(stderr.join("")).toContain("[superpack:voice/stream]");
+  });
+
+  it("includes plugin flags in debug_all and runtime toggles", () => {
+    createSuperpackPluginApi("voice").defineFlag("dump_audio", "Log audio frames");
+    process.env.SUPERPACK_PRESET = "debug_all";
+    resetFlags();
+    expect(activeFlags_()).toContain("voice.dump_audio");
+
+    const status = applyFlagsAction({ action: "disable", names: ["voice.dump_audio"] });
+    expect(status.active).not.toContain("voice.dump_audio");
+    expect(status.available).toContainEqual({ name: "voice.dump_audio", description: "Log audio frames", pluginId: "voice" });
+    expect(formatFlagsStatus(status)).toContain("Plugin flags: voice.dump_audio");
+  });
+
+  it("rejects names that would not parse in a flag expression", () => {
+    const api = createSuperpackPluginApi("voice");
+    expect(() => api.defineFlag("dump:audio", "x")).toThrow('invalid flag name "dump:audio"');
+    expect(() => createSuperpackPluginApi("a.b").defineFlag("x", "x")).toThrow('invalid plugin id "a.b"');
+  });
+
+  it("suggests close names once the plugin has defined flags", () => {
+    createSuperpackPluginApi("voice").defineFlag("dump_audio", "Log audio frames");
+    process.env.SUPERPACK_FLAGS = "voice.dump_audo";
+    resetFlags();
+    activeFlags_();
+    expect(stderr.join("")).toContain('unknown flag "voice.dump_audo" in SUPERPACK_FLAGS — did you mean "voice.dump_audio"?');
+  });
+
+  it("masks the plugin's sensitive config values from when its API is created", () => {
+    createSuperpackPluginApi("voice", {
+      pluginConfig: { endpoint: "https://tts.example", auth: { token: "tts-tok-9f8e7d" } },
+      uiHints: { endpoint: { label: "Endpoint" }, "auth.token": { sensitive: true } },
+    });
+    expect(redact("POST https://tts.example with tts-tok-9f8e7d")).toBe("POST https://tts.example with [REDACTED]");
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * openclaw-superpack: Diagnostics API for other plugins
+ *
+ * Every plugin gets one of these as `api.superpack` (attached by the
+ * src/plugins/registry.ts overlay). Flags a plugin defines are namespaced by
+ * its id, so a plugin "memory-lancedb" that calls
+ *   api.superpack.defineFlag("dump_recall", "Log every memory recall")
+ * is switched on with SUPERPACK_FLAGS=memory-lancedb.dump_recall, and
+ * listed by /superpack flags and the superpack.flags gateway method.
+ *
+ * Flag arguments take the short name; diag labels are shown as
+ * [superpack:<pluginId>/<label>].
+ *
+ * Values in the plugin's config whose UI hint is `sensitive` are registered
+ * for redaction (see redact.ts) when its API is created.
+ */
+
+import { diag, diagDump, diagError, diagList, diagWarn, type DiagFlag } from "./diag.js";
+import { definePluginFlag, flag, type FlagScope, type PluginFlagName } from "./flags.js";
+import type { PluginConfigUiHint } from "./plugins/types.js";
+import { addSensitiveValues, sensitiveConfigValues } from "./redact.js";
+
+/** A plugin's own flag, optionally with the scope of the code checking it. */
+export type SuperpackPluginFlag = string | ({ flag: string } & FlagScope);
+
+export type SuperpackPluginApi = {
+  /** Define a flag; returns its full name ("<pluginId>.<name>"). */
+  defineFlag: (name: string, description: string) => PluginFlagName;
+  flag: (name: string, scope?: FlagScope) => boolean;
+  diag: (f: SuperpackPluginFlag, label: string, msg: string) => void;
+  diagWarn: (f: SuperpackPluginFlag, label: string, msg: string) => void;
+  diagError: (f: SuperpackPluginFlag, label: string, msg: string) => void;
+  diagDump: (f: SuperpackPluginFlag, label: string, title: string, content: string) => void;
+  diagList: (f: SuperpackPluginFlag, label: string, title: string, items: string[]) => void;
+};
+
+/** The loaded plugin's config and the UI hints from its manifest */
+export type SuperpackPluginConfig = {
+  pluginConfig?: Record<string, unknown>;
+  uiHints?: Record<string, PluginConfigUiHint>;
+};
+
+export function createSuperpackPluginApi(pluginId: string, config: SuperpackPluginConfig = {}): SuperpackPluginApi {
+  if (config.pluginConfig && config.uiHints) {
+    addSensitiveValues(sensitiveConfigValues(config.pluginConfig, config.uiHints));
+  }
+
+  const qualify = (name: string): PluginFlagName => `${pluginId}.${name}`;
+  const toDiagFlag = (f: SuperpackPluginFlag): DiagFlag =>
+    typeof f === "string" ? qualify(f) : { ...f, flag: qualify(f.flag) };
+  const toLabel = (label: string) => `${pluginId}/${label}`;
+
+  return {
+    defineFlag: (name, description) => definePluginFlag(pluginId, name, description),
+    flag: (name, scope) => flag(qualify(name), scope),
+    diag: (f, label, msg) => diag(toDiagFlag(f), toLabel(label), msg),
+    diagWarn: (f, label, msg) => diagWarn(toDiagFlag(f), toLabel(label), msg),
+    diagError: (f, label, msg) => diagError(toDiagFlag(f), toLabel(label), msg),
+    diagDump: (f, label, title, content) => diagDump(toDiagFlag(f), toLabel(label), title, content),
+    diagList: (f, label, title, items) => diagList(toDiagFlag(f), toLabel(label), title, items),
+  };
+}
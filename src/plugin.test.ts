@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { diag, setConfigDiagFile } from "./diag.js";
+import { dumpLimits, setConfigDumpLimits } from "./diag-spill.js";
+import { rateLimits, setConfigRateLimits } from "./diag-throttle.js";
+import { activeFlags_, resetFlags, setConfigFlags, setConfigPresets } from "./flags.js";
+import plugin from "./plugin.js";
+import { hookGuardLimits, setConfigHookGuardLimits } from "./plugins/hook-guard.js";
+import { setConfigStrictHookResults, strictHookResults } from "./plugins/hook-results.js";
+import type { OpenClawPluginApi } from "./plugins/types.js";
+import { redact, resetRedaction } from "./redact.js";
+
+/** Registers the plugin with `pluginConfig`; returns what it logged. */
+function register(pluginConfig: Record<string, unknown>): { warnings: string[] } {
+  const warnings: string[] = [];
+  const api = {
+    id: "superpack",
+    pluginConfig,
+    logger: { info: () => {}, warn: (msg: string) => warnings.push(msg), error: () => {} },
+    registerGatewayMethod: () => {},
+    registerCommand: () => {},
+  } as unknown as OpenClawPluginApi;
+  plugin.register?.(api);
+  return { warnings };
+}
+
+describe("superpack plugin config", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.SUPERPACK_FLAGS;
+    delete process.env.SUPERPACK_PRESET;
+    resetFlags();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    process.env = { ...originalEnv };
+    setConfigPresets(undefined);
+    setConfigFlags(undefined);
+    setConfigRateLimits(undefined);
+    setConfigHookGuardLimits(undefined);
+    setConfigStrictHookResults(undefined);
+    setConfigDiagFile(undefined);
+    setConfigDumpLimits(undefined);
+    resetRedaction();
+    resetFlags();
+  });
+
+  it("adds redact patterns and warns about invalid ones", () => {
+    const { warnings } = register({ redact: ["tok-[0-9]+", "("] });
+    expect(redact("use tok-1234 here")).toBe("use [REDACTED] here");
+    expect(warnings).toEqual(["superpack: ignoring invalid redact pattern ("]);
+  });
+
+  it("defines custom presets", () => {
+    register({ presets: { mine: ["dump_tool_calls", "debug_hooks"] } });
+    process.env.SUPERPACK_PRESET = "mine";
+    resetFlags();
+    expect(activeFlags_()).toEqual(["dump_tool_calls", "dump_hook_events", "dump_hook_timing"]);
+  });
+
+  it("turns on flags and a custom preset from config", () => {
+    register({ presets: { mine: ["dump_tool_calls"] }, preset: "mine", flags: ["dump_system_prompt"] });
+    expect(activeFlags_()).toEqual(["dump_tool_calls", "dump_system_prompt"]);
+  });
+
+  it("sets diag rate limits, keeping defaults for what it leaves out", () => {
+    delete process.env.SUPERPACK_DIAG_RATE_LIMIT;
+    register({ rateLimits: { labels: { tools: 50 } } });
+    expect(rateLimits()).toEqual({ perMinute: 600, labels: { tools: 50 } });
+    register({ rateLimits: { perMinute: 0 } });
+    expect(rateLimits()).toEqual({ perMinute: 0, labels: {} });
+  });
+
+  it("sets hook timeouts and the breaker threshold", () => {
+    delete process.env.SUPERPACK_HOOK_TIMEOUT_MS;
+    register({ hookGuard: { timeoutMs: 5000, hooks: { before_tool_call: 60000 }, breakerThreshold: 0 } });
+    expect(hookGuardLimits()).toEqual({ timeoutMs: 5000, hooks: { before_tool_call: 60000 }, breakerThreshold: 0 });
+  });
+
+  it("turns on strict hook results", () => {
+    delete process.env.SUPERPACK_STRICT_HOOKS;
+    register({ strictHooks: true });
+    expect(strictHookResults()).toBe(true);
+  });
+
+  it("writes diag records to the configured file", () => {
+    delete process.env.SUPERPACK_DIAG_FILE;
+    process.env.SUPERPACK_FLAGS = "dump_system_prompt";
+    resetFlags();
+    vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    const dir = mkdtempSync(path.join(os.tmpdir(), "superpack-plugin-"));
+    const file = path.join(dir, "diag.jsonl");
+    try {
+      register({ diagFile: file });
+      diag("dump_system_prompt", "prompt", "built");
+      expect(existsSync(file)).toBe(true);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("sets dump truncation limits", () => {
+    delete process.env.SUPERPACK_DUMP_MAX_BYTES;
+    register({ dumpLimits: { maxBytes: 4096, tailLines: 5 } });
+    expect(dumpLimits()).toEqual({ maxBytes: 4096, headLines: 40, tailLines: 5 });
+  });
+});
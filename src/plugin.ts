@@ -0,0 +1,136 @@
+/**
+ * openclaw-superpack: Plugin entry
+ *
+ * The overlays are compiled into openclaw; this plugin is the runtime side,
+ * loaded by the gateway like any other plugin (see openclaw.plugin.json).
+ * It registers:
+ *   - gateway method `superpack.flags`: { action?: "list" | "enable" |
+ *     "disable" | "reset", flags?: string[] } → FlagsStatus
+ *   - chat command `/superpack flags [list | on ... | off ... | reset]`
+ *     (authorized senders only)
+ *
+ * Plugin config (schema in openclaw.plugin.json):
+ *   redact      array of regex sources masked in diag output; see redact.ts
+ *   flags       flag expressions switched on at startup; see flags.ts
+ *   preset      flag preset switched on at startup; see flags.ts
+ *   presets     custom flag presets, name → flags or presets; see flags.ts
+ *   rateLimits  diag records per label per minute; see diag-throttle.ts
+ *   hookGuard   hook handler timeouts and breaker threshold; see plugins/hook-guard.ts
+ *   strictHooks throw on invalid superpack hook results; see plugins/hook-results.ts
+ *   diagFile    JSON Lines file diag records are also written to; see diag.ts
+ *   dumpLimits  when dumps are truncated on stderr; see diag-spill.ts
+ */
+
+import {
+  applyFlagsAction,
+  formatFlagsStatus,
+  parseFlagsCommand,
+  parseFlagsParams,
+} from "./flags-control.js";
+import { setConfigDiagFile } from "./diag.js";
+import { setConfigDumpLimits } from "./diag-spill.js";
+import { setConfigRateLimits } from "./diag-throttle.js";
+import { setConfigFlags, setConfigPresets } from "./flags.js";
+import { setConfigRedactPatterns } from "./redact.js";
+import { setConfigHookGuardLimits } from "./plugins/hook-guard.js";
+import { setConfigStrictHookResults } from "./plugins/hook-results.js";
+import type { OpenClawPluginApi, OpenClawPluginDefinition } from "./plugins/types.js";
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const strings = (v: unknown): string[] =>
+  Array.isArray(v) ? v.filter((s): s is string => typeof s === "string") : [];
+
+const count = (v: unknown): number | undefined =>
+  typeof v === "number" && Number.isInteger(v) && v >= 0 ? v : undefined;
+
+const counts = (v: unknown): Record<string, number> | undefined =>
+  isRecord(v)
+    ? Object.fromEntries(
+        Object.entries(v).flatMap(([key, n]): [string, number][] => {
+          const valid = count(n);
+          return valid === undefined ? [] : [[key, valid]];
+        }),
+      )
+    : undefined;
+
+/** `fields` minus the undefined ones, which keep their defaults. */
+function definedFields<T extends Record<string, unknown>>(fields: T): Partial<T> {
+  return Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+function applyPluginConfig(api: OpenClawPluginApi): void {
+  const config = api.pluginConfig ?? {};
+
+  if (Array.isArray(config.redact)) {
+    const invalid = setConfigRedactPatterns(strings(config.redact));
+    for (const source of invalid) api.logger.warn(`superpack: ignoring invalid redact pattern ${source}`);
+  }
+
+  if (isRecord(config.presets)) {
+    setConfigPresets(
+      Object.fromEntries(Object.entries(config.presets).map(([name, entries]) => [name, strings(entries)])),
+    );
+  }
+
+  if (Array.isArray(config.flags) || typeof config.preset === "string") {
+    setConfigFlags(strings(config.flags), typeof config.preset === "string" ? config.preset : undefined);
+  }
+
+  if (isRecord(config.rateLimits)) {
+    const { perMinute, labels } = config.rateLimits;
+    setConfigRateLimits(definedFields({ perMinute: count(perMinute), labels: counts(labels) }));
+  }
+
+  if (isRecord(config.hookGuard)) {
+    const { timeoutMs, hooks, breakerThreshold } = config.hookGuard;
+    setConfigHookGuardLimits(
+      definedFields({ timeoutMs: count(timeoutMs), hooks: counts(hooks), breakerThreshold: count(breakerThreshold) }),
+    );
+  }
+
+  if (typeof config.strictHooks === "boolean") setConfigStrictHookResults(config.strictHooks);
+
+  if (typeof config.diagFile === "string") setConfigDiagFile(config.diagFile);
+
+  if (isRecord(config.dumpLimits)) {
+    const { maxBytes, headLines, tailLines } = config.dumpLimits;
+    setConfigDumpLimits(
+      definedFields({ maxBytes: count(maxBytes), headLines: count(headLines), tailLines: count(tailLines) }),
+    );
+  }
+}
+
+const plugin: OpenClawPluginDefinition = {
+  id: "superpack",
+  name: "openclaw-superpack",
+  description: "Runtime controls for superpack diagnostics",
+
+  register(api: OpenClawPluginApi) {
+    applyPluginConfig(api);
+
+    api.registerGatewayMethod("superpack.flags", ({ params, respond }) => {
+      const action = parseFlagsParams(params ?? {});
+      if ("error" in action) {
+        respond(false, undefined, { code: "INVALID_REQUEST", message: action.error });
+        return;
+      }
+      respond(true, applyFlagsAction(action));
+    });
+
+    api.registerCommand({
+      name: "superpack",
+      description: "Show or change superpack diagnostic flags",
+      acceptsArgs: true,
+      requireAuth: true,
+      handler: (ctx) => {
+        const action = parseFlagsCommand(ctx.args ?? "");
+        if ("error" in action) return { text: action.error };
+        return { text: formatFlagsStatus(applyFlagsAction(action)) };
+      },
+    });
+  },
+};
+
+export default plugin;
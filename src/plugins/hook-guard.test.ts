@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createCircuitBreakers,
+  DEFAULT_HOOK_GUARD_LIMITS,
+  handlerTimeoutMs,
+  hookGuardLimits,
+  setConfigHookGuardLimits,
+  withTimeout,
+} from "./hook-guard.js";
+
+describe("hook timeouts", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    setConfigHookGuardLimits(undefined);
+  });
+
+  it("prefers the registration, then the hook, then the default", () => {
+    const limits = { ...DEFAULT_HOOK_GUARD_LIMITS, hooks: { system_prompt_footer: 500 } };
+    expect(handlerTimeoutMs("system_prompt_footer", { timeoutMs: 50 }, limits)).toBe(50);
+    expect(handlerTimeoutMs("system_prompt_footer", {}, limits)).toBe(500);
+    expect(handlerTimeoutMs("workspace_bootstrap_after", {}, limits)).toBe(30_000);
+    expect(handlerTimeoutMs("workspace_bootstrap_after", { timeoutMs: 0 }, limits)).toBe(0);
+  });
+
+  it("applies the default to upstream hooks too, with 0 opting out", () => {
+    const limits = { ...DEFAULT_HOOK_GUARD_LIMITS, hooks: { before_tool_call: 0 } };
+    expect(handlerTimeoutMs("agent_end", {}, limits)).toBe(30_000);
+    expect(handlerTimeoutMs("before_tool_call", {}, limits)).toBe(0);
+    expect(handlerTimeoutMs("before_tool_call", { timeoutMs: 50 }, limits)).toBe(50);
+  });
+
+  it("takes the default from config, with the env winning", () => {
+    setConfigHookGuardLimits({ timeoutMs: 1000 });
+    expect(hookGuardLimits().timeoutMs).toBe(1000);
+    process.env.SUPERPACK_HOOK_TIMEOUT_MS = "250";
+    expect(hookGuardLimits().timeoutMs).toBe(250);
+    expect(hookGuardLimits().breakerThreshold).toBe(5);
+  });
+
+  it("shares config between copies of the module", async () => {
+    vi.resetModules();
+    const other = await import("./hook-guard.js");
+    expect(other.hookGuardLimits).not.toBe(hookGuardLimits);
+    other.setConfigHookGuardLimits({ hooks: { agent_end: 60_000 }, breakerThreshold: 2 });
+    expect(hookGuardLimits()).toMatchObject({ hooks: { agent_end: 60_000 }, breakerThreshold: 2 });
+  });
+
+  it("rejects a promise that outlives the timeout", async () => {
+    await expect(withTimeout(new Promise(() => {}), 10)).rejects.toThrow("timed out after 10ms");
+    await expect(withTimeout(Promise.resolve("done"), 10)).resolves.toBe("done");
+  });
+
+  it("passes through plain values and a zero timeout", async () => {
+    await expect(withTimeout("sync", 10)).resolves.toBe("sync");
+    const slow = new Promise((resolve) => setTimeout(() => resolve("late"), 20));
+    await expect(withTimeout(slow, 0)).resolves.toBe("late");
+  });
+});
+
+describe("circuit breakers", () => {
+  const reg = () => ({ pluginId: "p", hookName: "agent_end" });
+
+  it("opens after the threshold of consecutive failures", () => {
+    const breakers = createCircuitBreakers(2);
+    const r = reg();
+    expect(breakers.failed(r)).toBeUndefined();
+    expect(breakers.isOpen(r)).toBe(false);
+    expect(breakers.failed(r)).toEqual({ pluginId: "p", hookName: "agent_end", failures: 2 });
+    expect(breakers.isOpen(r)).toBe(true);
+    expect(breakers.failed(r)).toBeUndefined();
+  });
+
+  it("counts per registration and resets on success", () => {
+    const breakers = createCircuitBreakers(2);
+    const a = reg();
+    const b = reg();
+    breakers.failed(a);
+    breakers.failed(b);
+    breakers.succeeded(a);
+    expect(breakers.failed(a)).toBeUndefined();
+    expect(breakers.failed(b)).toBeDefined();
+    expect(breakers.isOpen(a)).toBe(false);
+  });
+
+  it("never opens for guard hooks", () => {
+    const breakers = createCircuitBreakers(2);
+    const guard = { pluginId: "p", hookName: "before_tool_call" };
+    for (let i = 0; i < 10; i++) expect(breakers.failed(guard)).toBeUndefined();
+    expect(breakers.isOpen(guard)).toBe(false);
+  });
+
+  it("reads the configured threshold on every failure without one", () => {
+    const breakers = createCircuitBreakers();
+    const r = reg();
+    breakers.failed(r);
+    setConfigHookGuardLimits({ breakerThreshold: 2 });
+    expect(breakers.failed(r)).toEqual({ pluginId: "p", hookName: "agent_end", failures: 2 });
+    setConfigHookGuardLimits(undefined);
+  });
+
+  it("lists tripped handlers in order", () => {
+    const breakers = createCircuitBreakers(1);
+    breakers.failed({ pluginId: "a", hookName: "agent_end" });
+    breakers.failed({ pluginId: "b", hookName: "llm_output" });
+    expect(breakers.tripped()).toEqual([
+      { pluginId: "a", hookName: "agent_end", failures: 1 },
+      { pluginId: "b", hookName: "llm_output", failures: 1 },
+    ]);
+  });
+
+  it("never opens with a zero threshold", () => {
+    const breakers = createCircuitBreakers(0);
+    const r = reg();
+    for (let i = 0; i < 100; i++) breakers.failed(r);
+    expect(breakers.isOpen(r)).toBe(false);
+  });
+});
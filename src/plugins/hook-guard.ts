@@ -0,0 +1,140 @@
+/**
+ * openclaw-superpack: Hook handler timeouts and circuit breakers
+ *
+ * Used by the overlay hooks.ts:
+ *   - an awaited handler with a timeout races it; a handler that doesn't
+ *     settle in time counts as failed and the runner moves on (the handler
+ *     itself keeps running — there is no way to cancel it)
+ *   - a handler that fails `breakerThreshold` times in a row is disabled
+ *     for the rest of the runner's life; one success resets its count.
+ *     Guard hooks (GUARD_HOOKS) are never disabled: a disabled guard would
+ *     let through whatever it blocks.
+ *
+ * Timeout per handler, first set wins:
+ *   api.on(hook, handler, { timeoutMs })    per registration
+ *   superpack.hookGuard.hooks[hook]         per hook (config)
+ *   SUPERPACK_HOOK_TIMEOUT_MS               env
+ *   superpack.hookGuard.timeoutMs           config default
+ *   30 000 ms
+ * for every hook, upstream's included. 0 disables the timeout, which is the
+ * opt-out for handlers that legitimately wait (an approval prompt in
+ * before_tool_call). The sync hooks (tool_result_persist,
+ * before_message_write) can't be timed out.
+ *
+ * Like flags.ts, config lives on globalThis so the plugin's copy of this
+ * module configures the overlays' copy.
+ */
+
+export type HookGuardLimits = {
+  /** Default handler timeout in ms (0 = none) */
+  timeoutMs: number;
+  /** Per-hook timeouts */
+  hooks: Record<string, number>;
+  /** Consecutive failures before a handler is disabled (0 = never) */
+  breakerThreshold: number;
+};
+
+export const DEFAULT_HOOK_GUARD_LIMITS: HookGuardLimits = {
+  timeoutMs: 30_000,
+  hooks: {},
+  breakerThreshold: 5,
+};
+
+type HookGuardState = { configLimits: Partial<HookGuardLimits> };
+
+const STATE_KEY = Symbol.for("openclaw-superpack.hook-guard");
+const state = ((globalThis as Record<symbol, unknown>)[STATE_KEY] ??= {
+  configLimits: {},
+} satisfies HookGuardState) as HookGuardState;
+
+/** Config-driven limits; unset fields keep their defaults. */
+export function setConfigHookGuardLimits(limits?: Partial<HookGuardLimits>): void {
+  state.configLimits = limits ?? {};
+}
+
+export function hookGuardLimits(): HookGuardLimits {
+  const limits = { ...DEFAULT_HOOK_GUARD_LIMITS, ...state.configLimits };
+  const env = Number.parseInt(process.env.SUPERPACK_HOOK_TIMEOUT_MS ?? "", 10);
+  if (Number.isFinite(env) && env >= 0) limits.timeoutMs = env;
+  return limits;
+}
+
+/** Timeout for one registration of `hookName` (see the order above). */
+export function handlerTimeoutMs(
+  hookName: string,
+  registration: { timeoutMs?: number },
+  limits: HookGuardLimits = hookGuardLimits(),
+): number {
+  return registration.timeoutMs ?? limits.hooks[hookName] ?? limits.timeoutMs;
+}
+
+// ---------------------------------------------------------------------------
+// Timeouts
+// ---------------------------------------------------------------------------
+
+/** `value`, or a rejection once `ms` pass first. */
+export async function withTimeout<T>(value: T | Promise<T>, ms: number): Promise<T> {
+  if (ms <= 0 || !(value instanceof Promise)) return value;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms);
+  });
+  try {
+    return await Promise.race([value, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Circuit breakers
+// ---------------------------------------------------------------------------
+
+/** Hooks whose handlers can block or cancel what they guard */
+export const GUARD_HOOKS: ReadonlySet<string> = new Set([
+  "before_tool_call",
+  "message_sending",
+  "before_message_write",
+  "subagent_prompt_validate",
+]);
+
+export type TrippedHandler = { pluginId: string; hookName: string; failures: number };
+
+export type CircuitBreakers = {
+  /** Whether `registration` has been disabled. */
+  isOpen(registration: object): boolean;
+  succeeded(registration: object): void;
+  /** Count a failure; returns the tripped handler when this one opened the breaker. */
+  failed(registration: { pluginId: string; hookName: string }): TrippedHandler | undefined;
+  /** Disabled handlers, in the order they tripped. */
+  tripped(): TrippedHandler[];
+};
+
+/**
+ * Breakers keyed by registration; a zero threshold never trips, nor do guard
+ * hooks. Without `threshold` the configured one is read on every failure.
+ */
+export function createCircuitBreakers(threshold?: number): CircuitBreakers {
+  const failures = new WeakMap<object, number>();
+  const open = new WeakSet<object>();
+  const tripped: TrippedHandler[] = [];
+
+  return {
+    isOpen: (registration) => open.has(registration),
+    succeeded: (registration) => {
+      failures.delete(registration);
+    },
+    failed: (registration) => {
+      if (open.has(registration)) return undefined;
+      const count = (failures.get(registration) ?? 0) + 1;
+      failures.set(registration, count);
+      const limit = threshold ?? hookGuardLimits().breakerThreshold;
+      if (limit <= 0 || count < limit || GUARD_HOOKS.has(registration.hookName)) return undefined;
+      open.add(registration);
+      const entry = { pluginId: registration.pluginId, hookName: registration.hookName, failures: count };
+      tripped.push(entry);
+      return entry;
+    },
+    tripped: () => [...tripped],
+  };
+}
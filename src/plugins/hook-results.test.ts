@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { setConfigStrictHookResults, strictHookResults, validateHookResult } from "./hook-results.js";
+
+describe("validateHookResult", () => {
+  it("accepts results matching the declared type", () => {
+    expect(validateHookResult("system_prompt_tools_filter", { tools: [{ name: "read" }] })).toBeUndefined();
+    expect(
+      validateHookResult("workspace_bootstrap_before", { files: [{ name: "AGENTS.md", content: "" }], skip: false }),
+    ).toBeUndefined();
+    expect(validateHookResult("subagent_prompt_validate", { block: true, reason: "no" })).toBeUndefined();
+    expect(validateHookResult("system_prompt_footer", { append: "x" })).toBeUndefined();
+  });
+
+  it("accepts partial workspace_bootstrap_before results", () => {
+    expect(validateHookResult("workspace_bootstrap_before", { skip: true })).toBeUndefined();
+    expect(validateHookResult("workspace_bootstrap_before", { files: [] })).toBeUndefined();
+  });
+
+  it("accepts returning nothing", () => {
+    expect(validateHookResult("system_prompt_footer", undefined)).toBeUndefined();
+    expect(validateHookResult("system_prompt_footer", null)).toBeUndefined();
+  });
+
+  it("names the offending field", () => {
+    expect(validateHookResult("system_prompt_tools_filter", { tools: "read" })).toBe(
+      'tools: expected an array, got string "read"',
+    );
+    expect(validateHookResult("workspace_bootstrap_before", { files: "AGENTS.md", skip: true })).toBe(
+      'files: expected an array, got string "AGENTS.md"',
+    );
+    expect(validateHookResult("workspace_bootstrap_before", { files: [], skip: "yes" })).toBe(
+      'skip: expected a boolean, got string "yes"',
+    );
+    expect(
+      validateHookResult("system_prompt_tools_filter", { tools: [{ name: "read" }, { name: "exec", description: 3 }] }),
+    ).toBe("tools[1].description: expected a string, got number 3");
+  });
+
+  it("rejects non-object results", () => {
+    expect(validateHookResult("system_prompt_footer", "more text")).toBe(
+      'result: expected an object, got string "more text"',
+    );
+    expect(validateHookResult("subagent_prompt_validate", [true])).toBe("result: expected an object, got an array");
+  });
+
+  it("leaves hooks without a schema unchecked", () => {
+    expect(validateHookResult("before_tool_call", "anything")).toBeUndefined();
+  });
+});
+
+describe("strict hook results", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    setConfigStrictHookResults(undefined);
+  });
+
+  it("is off by default, on from config, and the env wins", () => {
+    delete process.env.SUPERPACK_STRICT_HOOKS;
+    expect(strictHookResults()).toBe(false);
+    setConfigStrictHookResults(true);
+    expect(strictHookResults()).toBe(true);
+    process.env.SUPERPACK_STRICT_HOOKS = "0";
+    expect(strictHookResults()).toBe(false);
+    process.env.SUPERPACK_STRICT_HOOKS = "1";
+    setConfigStrictHookResults(false);
+    expect(strictHookResults()).toBe(true);
+  });
+
+  it("shares config between copies of the module", async () => {
+    delete process.env.SUPERPACK_STRICT_HOOKS;
+    vi.resetModules();
+    const other = await import("./hook-results.js");
+    expect(other.strictHookResults).not.toBe(strictHookResults);
+    other.setConfigStrictHookResults(true);
+    expect(strictHookResults()).toBe(true);
+  });
+});
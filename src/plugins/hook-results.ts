@@ -0,0 +1,121 @@
+/**
+ * openclaw-superpack: Result validation for superpack hooks
+ *
+ * The overlay runner merges whatever a handler returns, so
+ * `{ tools: "read" }` from system_prompt_tools_filter would end up as the
+ * tool list. validateHookResult checks a result against the hook's declared
+ * result type (types.ts) and names the first offending field:
+ *   tools[2].name: expected a string, got number 3
+ * The runner discards invalid results and logs that line; in strict mode
+ * (SUPERPACK_STRICT_HOOKS=1, or setConfigStrictHookResults from config)
+ * it throws instead.
+ *
+ * Hooks without a declared schema here (all upstream ones) pass unchecked.
+ */
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+/** Describes what's wrong with `value` at `path`, or undefined when it fits. */
+type Check = (value: unknown, path: string) => string | undefined;
+
+function describe(value: unknown): string {
+  if (value === null || value === undefined) return String(value);
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "object") return "an object";
+  if (typeof value === "function") return "a function";
+  const json = typeof value === "string" ? JSON.stringify(value) : String(value);
+  return `${typeof value} ${json.length > 40 ? `${json.slice(0, 40)}…` : json}`;
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const primitive =
+  (type: "string" | "boolean"): Check =>
+  (value, path) =>
+    typeof value === type ? undefined : `${path}: expected a ${type}, got ${describe(value)}`;
+
+const string = primitive("string");
+const boolean = primitive("boolean");
+
+const optional =
+  (check: Check): Check =>
+  (value, path) =>
+    value === undefined ? undefined : check(value, path);
+
+const arrayOf =
+  (item: Check): Check =>
+  (value, path) => {
+    if (!Array.isArray(value)) return `${path}: expected an array, got ${describe(value)}`;
+    for (const [i, v] of value.entries()) {
+      const problem = item(v, `${path}[${i}]`);
+      if (problem) return problem;
+    }
+    return undefined;
+  };
+
+const object =
+  (fields: Record<string, Check>): Check =>
+  (value, path) => {
+    if (!isObject(value)) return `${path || "result"}: expected an object, got ${describe(value)}`;
+    for (const [key, check] of Object.entries(fields)) {
+      const problem = check(value[key], path ? `${path}.${key}` : key);
+      if (problem) return problem;
+    }
+    return undefined;
+  };
+
+// ---------------------------------------------------------------------------
+// Declared result types
+// ---------------------------------------------------------------------------
+
+/** Mirrors the Plugin*Result types of the superpack hooks in types.ts */
+const RESULT_SCHEMAS: Record<string, Check> = {
+  system_prompt_tools_filter: object({
+    tools: arrayOf(object({ name: string, description: optional(string) })),
+  }),
+  system_prompt_skills_filter: object({ skillsPrompt: string }),
+  system_prompt_footer: object({ append: string }),
+  // Either field may be left out; the runner keeps the files so far and skip as it was
+  workspace_bootstrap_before: object({
+    files: optional(arrayOf(object({ name: string, content: string }))),
+    skip: optional(boolean),
+  }),
+  subagent_prompt_validate: object({ block: boolean, reason: optional(string) }),
+};
+
+/**
+ * What's wrong with a handler's result for `hookName`, or undefined when it
+ * matches the declared type. Returning nothing (undefined/null) is always fine.
+ */
+export function validateHookResult(hookName: string, result: unknown): string | undefined {
+  const schema = RESULT_SCHEMAS[hookName];
+  if (!schema || result === undefined || result === null) return undefined;
+  return schema(result, "");
+}
+
+// ---------------------------------------------------------------------------
+// Strict mode
+// ---------------------------------------------------------------------------
+
+type StrictState = { configStrict: boolean };
+
+// On globalThis, like flags.ts, so the plugin's config reaches the overlays' copy
+const STATE_KEY = Symbol.for("openclaw-superpack.hook-results");
+const state = ((globalThis as Record<symbol, unknown>)[STATE_KEY] ??= {
+  configStrict: false,
+} satisfies StrictState) as StrictState;
+
+/** Config-driven strict mode (superpack.strictHooks). */
+export function setConfigStrictHookResults(strict?: boolean): void {
+  state.configStrict = strict ?? false;
+}
+
+/** Whether invalid results throw instead of being discarded; the env wins. */
+export function strictHookResults(): boolean {
+  const env = process.env.SUPERPACK_STRICT_HOOKS;
+  if (env !== undefined && env !== "") return env === "1" || env === "true";
+  return state.configStrict;
+}
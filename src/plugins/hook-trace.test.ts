@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { resetFlags } from "../flags.js";
+import {
+  changedKeys,
+  hookTimingTable,
+  resetHookTiming,
+  startHandlerTrace,
+  summarizeValue,
+} from "./hook-trace.js";
+
+describe("hook tracing", () => {
+  const originalEnv = { ...process.env };
+  let stderr: string[];
+
+  beforeEach(() => {
+    delete process.env.SUPERPACK_PRESET;
+    delete process.env.SUPERPACK_FLAGS;
+    resetFlags();
+    stderr = [];
+    vi.spyOn(process.stderr, "write").mockImplementation((chunk) => {
+      stderr.push(String(chunk));
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    process.env = { ...originalEnv };
+    resetFlags();
+    resetHookTiming();
+  });
+
+  describe("summarizeValue", () => {
+    it("cuts long strings and arrays", () => {
+      const summary = summarizeValue({ text: "x".repeat(100), items: [1, 2, 3, 4, 5, 6, 7] });
+      expect(summary).toBe(`{"text":"${"x".repeat(80)}…(+20 chars)","items":[1,2,3,4,5,"…(+2 more)"]}`);
+    });
+
+    it("caps the whole line and survives cycles", () => {
+      const many = Object.fromEntries(Array.from({ length: 50 }, (_, i) => [`key${i}`, i]));
+      expect(summarizeValue(many)).toHaveLength(301);
+      const cyclic: Record<string, unknown> = {};
+      cyclic.self = cyclic;
+      expect(summarizeValue(cyclic)).toBe("[unserializable]");
+      expect(summarizeValue(undefined)).toBe("undefined");
+    });
+  });
+
+  it("changedKeys lists added, removed and changed top-level keys", () => {
+    expect(changedKeys({ a: 1, b: 2, c: [1] }, { a: 1, c: [2], d: 0 })).toEqual(["-b", "~c", "+d"]);
+    expect(changedKeys("x", "y")).toEqual(["~(value)"]);
+  });
+
+  it("is a no-op with both flags off", () => {
+    const trace = startHandlerTrace("agent_end", { pluginId: "p" }, {}, {});
+    trace.done(undefined);
+    expect(stderr).toEqual([]);
+    expect(hookTimingTable()).toEqual([]);
+  });
+
+  it("logs plugin, priority, event and result under dump_hook_events", () => {
+    process.env.SUPERPACK_FLAGS = "dump_hook_events";
+    startHandlerTrace("before_tool_call", { pluginId: "guard", priority: 5 }, { toolName: "exec" }, {}).done({
+      block: true,
+    });
+    const line = stderr.join("");
+    expect(line).toContain("before_tool_call ← guard (priority 5)");
+    expect(line).toContain('event={"toolName":"exec"} → {"block":true}');
+  });
+
+  it("reports message rewrites as changed keys", () => {
+    process.env.SUPERPACK_FLAGS = "dump_hook_events";
+    const before = { role: "tool", content: "raw" };
+    startHandlerTrace("tool_result_persist", { pluginId: "scrub" }, { message: before }, {}).done(
+      { message: { role: "tool", content: "clean", redacted: true } },
+      before,
+    );
+    expect(stderr.join("")).toContain("changed message: ~content +redacted");
+  });
+
+  it("applies scoped flags using the hook context", () => {
+    process.env.SUPERPACK_FLAGS = "dump_hook_events@agent=main";
+    startHandlerTrace("agent_end", { pluginId: "p" }, {}, { agentId: "other" }).done(undefined);
+    expect(stderr).toEqual([]);
+    startHandlerTrace("agent_end", { pluginId: "p" }, {}, { agentId: "main" }).failed(new Error("boom"));
+    expect(stderr.join("")).toContain("✖ Error: boom");
+  });
+
+  it("builds p50/p95 per hook and the slowest handlers from dump_hook_timing samples", () => {
+    process.env.SUPERPACK_FLAGS = "dump_hook_timing";
+    const now = vi.spyOn(performance, "now");
+    const time = (hookName: string, pluginId: string, elapsed: number) => {
+      now.mockReturnValueOnce(0).mockReturnValueOnce(elapsed);
+      startHandlerTrace(hookName, { pluginId }, {}, {}).done(undefined);
+    };
+    for (let i = 1; i <= 20; i++) time("llm_input", "logger", i);
+    time("agent_end", "memory", 50);
+
+    const table = hookTimingTable(2);
+    expect(table[0]).toMatch(/^hook\s+calls\s+p50\s+p95\s+max$/);
+    expect(table[1]).toMatch(/^agent_end\s+1\s+50\.0ms\s+50\.0ms\s+50\.0ms$/);
+    expect(table[2]).toMatch(/^llm_input\s+20\s+10\.0ms\s+19\.0ms\s+20\.0ms$/);
+    expect(table.slice(3)).toEqual([
+      "",
+      "slowest handlers:",
+      "  memory agent_end: max 50.0ms, avg 50.0ms over 1 call(s)",
+      "  logger llm_input: max 20.0ms, avg 10.5ms over 20 call(s)",
+    ]);
+  });
+});
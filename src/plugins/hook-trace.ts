@@ -0,0 +1,198 @@
+/**
+ * openclaw-superpack: Hook tracing and timing
+ *
+ * Used by the overlay hooks.ts around every handler call:
+ *   - dump_hook_events: one line per handler with its plugin, priority, a
+ *     summary of the event, and what it returned (or how it changed the
+ *     message, for the message-rewriting sync hooks)
+ *   - dump_hook_timing: elapsed ms per handler, plus samples for the table
+ *     of p50/p95 per hook and slowest handlers logged at gateway stop
+ *
+ * With both flags off, startHandlerTrace returns a no-op and costs one
+ * flag lookup.
+ */
+
+import { diag, diagDump } from "../diag.js";
+import { flag } from "../flags.js";
+
+// ---------------------------------------------------------------------------
+// Summaries
+// ---------------------------------------------------------------------------
+
+const MAX_STRING = 80;
+const MAX_ITEMS = 5;
+const MAX_SUMMARY = 300;
+
+/** Compact one-line JSON of `value`: long strings, arrays and the whole line are cut. */
+export function summarizeValue(value: unknown): string {
+  if (value === undefined) return "undefined";
+  let json: string;
+  try {
+    json = JSON.stringify(value, (_key, v: unknown) => {
+      if (typeof v === "string" && v.length > MAX_STRING) {
+        return `${v.slice(0, MAX_STRING)}…(+${v.length - MAX_STRING} chars)`;
+      }
+      if (Array.isArray(v) && v.length > MAX_ITEMS) {
+        return [...v.slice(0, MAX_ITEMS), `…(+${v.length - MAX_ITEMS} more)`];
+      }
+      if (typeof v === "function") return "[function]";
+      if (typeof v === "bigint") return v.toString();
+      return v;
+    });
+  } catch {
+    return "[unserializable]";
+  }
+  if (json === undefined) return String(value);
+  return json.length > MAX_SUMMARY ? `${json.slice(0, MAX_SUMMARY)}…` : json;
+}
+
+/**
+ * Top-level keys that differ between two values: "+added", "-removed",
+ * "~changed". Non-objects compare as a whole.
+ */
+export function changedKeys(before: unknown, after: unknown): string[] {
+  if (before === after) return [];
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === "object" && v !== null && !Array.isArray(v);
+  if (!isObject(before) || !isObject(after)) return ["~(value)"];
+  const out: string[] = [];
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (!(key in before)) out.push(`+${key}`);
+    else if (!(key in after)) out.push(`-${key}`);
+    else if (summarizeValue(before[key]) !== summarizeValue(after[key])) out.push(`~${key}`);
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Timing samples
+// ---------------------------------------------------------------------------
+
+/** Samples kept per hook; older ones are overwritten */
+const MAX_SAMPLES = 10_000;
+
+type HandlerStats = { hookName: string; pluginId: string; calls: number; totalMs: number; maxMs: number };
+
+const samples = new Map<string, { ms: number[]; calls: number }>();
+const handlers = new Map<string, HandlerStats>();
+
+function recordTiming(hookName: string, pluginId: string, ms: number): void {
+  let hook = samples.get(hookName);
+  if (!hook) {
+    hook = { ms: [], calls: 0 };
+    samples.set(hookName, hook);
+  }
+  hook.ms[hook.calls % MAX_SAMPLES] = ms;
+  hook.calls++;
+
+  const key = `${hookName}\0${pluginId}`;
+  let stats = handlers.get(key);
+  if (!stats) {
+    stats = { hookName, pluginId, calls: 0, totalMs: 0, maxMs: 0 };
+    handlers.set(key, stats);
+  }
+  stats.calls++;
+  stats.totalMs += ms;
+  stats.maxMs = Math.max(stats.maxMs, ms);
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+const ms = (n: number) => `${n.toFixed(1)}ms`;
+
+/**
+ * Lines of the aggregate timing table: calls, p50, p95 and max per hook
+ * (slowest p95 first), then the `slowest` handlers by max time.
+ */
+export function hookTimingTable(slowest = 10): string[] {
+  if (samples.size === 0) return [];
+  const width = Math.max(4, ...[...samples.keys()].map((h) => h.length));
+  const lines = [`${"hook".padEnd(width)}  calls      p50      p95      max`];
+  const rows = [...samples].map(([hookName, { ms: values, calls }]) => {
+    const sorted = values.toSorted((a, b) => a - b);
+    return { hookName, calls, p50: percentile(sorted, 50), p95: percentile(sorted, 95), max: sorted[sorted.length - 1] };
+  });
+  for (const r of rows.toSorted((a, b) => b.p95 - a.p95)) {
+    lines.push(
+      `${r.hookName.padEnd(width)}  ${String(r.calls).padStart(5)}  ${ms(r.p50).padStart(7)}  ${ms(r.p95).padStart(7)}  ${ms(r.max).padStart(7)}`,
+    );
+  }
+  lines.push("", "slowest handlers:");
+  const top = [...handlers.values()].toSorted((a, b) => b.maxMs - a.maxMs).slice(0, slowest);
+  for (const h of top) {
+    lines.push(`  ${h.pluginId} ${h.hookName}: max ${ms(h.maxMs)}, avg ${ms(h.totalMs / h.calls)} over ${h.calls} call(s)`);
+  }
+  return lines;
+}
+
+/**
+ * Log the timing table (if anything was timed) under dump_hook_timing,
+ * whichever scope it was on for when the samples were taken.
+ */
+export function dumpHookTimingTable(): void {
+  const table = hookTimingTable();
+  if (table.length === 0) return;
+  diagDump({ flag: "dump_hook_timing", anyScope: true }, "hooks", "Hook timing since start", table.join("\n"));
+}
+
+/** Forget all timing samples (for testing). */
+export function resetHookTiming(): void {
+  samples.clear();
+  handlers.clear();
+}
+
+// ---------------------------------------------------------------------------
+// Per-handler trace
+// ---------------------------------------------------------------------------
+
+export type HandlerTrace = {
+  /** The handler returned `result`. Pass `before` to log how a rewritten message changed. */
+  done(result: unknown, before?: unknown): void;
+  failed(error: unknown): void;
+};
+
+const NO_TRACE: HandlerTrace = { done() {}, failed() {} };
+
+/**
+ * Start tracing one handler call. `ctx` supplies agentId/sessionKey so
+ * scoped flags (dump_hook_events@agent=main) apply.
+ */
+export function startHandlerTrace(
+  hookName: string,
+  hook: { pluginId: string; priority?: number },
+  event: unknown,
+  ctx: unknown,
+): HandlerTrace {
+  const scope = (ctx ?? {}) as { agentId?: string; sessionKey?: string };
+  const events = { flag: "dump_hook_events" as const, agentId: scope.agentId, sessionKey: scope.sessionKey };
+  const timing = { flag: "dump_hook_timing" as const, agentId: scope.agentId, sessionKey: scope.sessionKey };
+  const traceEvents = flag("dump_hook_events", scope);
+  const traceTiming = flag("dump_hook_timing", scope);
+  if (!traceEvents && !traceTiming) return NO_TRACE;
+
+  const start = performance.now();
+  const who = `${hookName} ← ${hook.pluginId} (priority ${hook.priority ?? 0})`;
+  const finish = (outcome: string) => {
+    const elapsed = performance.now() - start;
+    if (traceEvents) diag(events, "hooks", `${who} ${ms(elapsed)} event=${summarizeValue(event)} ${outcome}`);
+    if (traceTiming) {
+      recordTiming(hookName, hook.pluginId, elapsed);
+      diag(timing, "hooks", `${hookName} ${hook.pluginId} ${ms(elapsed)}`);
+    }
+  };
+  return {
+    done(result, before) {
+      const message = (result as { message?: unknown } | undefined)?.message;
+      if (before !== undefined && message !== undefined) {
+        finish(`changed message: ${changedKeys(before, message).join(" ") || "(identical)"}`);
+      } else {
+        finish(`→ ${summarizeValue(result)}`);
+      }
+    },
+    failed(error) {
+      finish(`✖ ${String(error)}`);
+    },
+  };
+}
@@ -5,7 +5,13 @@
  * error handling, priority ordering, and async support.
  */
 
+import { flushDiagDrops } from "../diag.js";
+import { createCircuitBreakers, handlerTimeoutMs, withTimeout } from "./hook-guard.js";
+import { strictHookResults, validateHookResult } from "./hook-results.js";
+import { dumpHookTimingTable, startHandlerTrace } from "./hook-trace.js";
 import type { PluginRegistry } from "./registry.js";
+import type { SuperpackHookName } from "./superpack-hooks.js";
+import { runSuperpackHook, type SuperpackHookResult } from "./superpack-hook-semantics.js";
 import type {
   PluginHookAfterCompactionEvent,
   PluginHookAfterToolCallEvent,
@@ -61,6 +67,7 @@ import type {
   PluginHookWorkspaceBootstrapAfterEvent,
   PluginHookSubagentPromptValidateEvent,
   PluginHookSubagentPromptValidateResult,
+  PluginHookSandboxWorkspaceReadyEvent,
 } from "./types.js";
 
 // Re-export types for consumers
@@ -117,6 +124,7 @@ export type {
   PluginHookWorkspaceBootstrapAfterEvent,
   PluginHookSubagentPromptValidateEvent,
   PluginHookSubagentPromptValidateResult,
+  PluginHookSandboxWorkspaceReadyEvent,
 };
 
 export type HookRunnerLogger = {
@@ -211,6 +219,82 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     throw new Error(msg, { cause: params.error });
   };
 
+  // Superpack: handler timeouts and circuit breakers (see hook-guard.ts)
+  const breakers = createCircuitBreakers();
+
+  /** Registered handlers for `hookName`, minus those whose breaker is open. */
+  const getActiveHooks = <K extends PluginHookName>(hookName: K) =>
+    getHooksForName(registry, hookName).filter((hook) => !breakers.isOpen(hook));
+
+  /** Call an awaited handler, rejecting once its timeout passes. */
+  const callHandler = <T>(hookName: PluginHookName, hook: PluginHookRegistration, event: unknown, ctx: unknown) =>
+    withTimeout(
+      (hook.handler as (event: unknown, ctx: unknown) => Promise<T>)(event, ctx),
+      handlerTimeoutMs(hookName, hook),
+    );
+
+  /** Count a failure; report the handler when this one disables it. */
+  const recordHookFailure = (hookName: PluginHookName, hook: PluginHookRegistration): void => {
+    const tripped = breakers.failed(hook);
+    if (!tripped) return;
+    const message = `${hookName} handler disabled after ${tripped.failures} consecutive failures`;
+    logger?.warn(`[superpack] ✖ ${hook.pluginId} ${message}`);
+    registry.diagnostics.push({ level: "warn", pluginId: hook.pluginId, source: hook.source, message });
+  };
+
+  // Superpack: handlers already reported for an invalid result (see hook-results.ts)
+  const reportedInvalid = new WeakSet<PluginHookRegistration>();
+
+  /** Discard a result that doesn't match the hook's result type; throws in strict mode. */
+  const rejectInvalidResult = (hookName: PluginHookName, hook: PluginHookRegistration, problem: string): void => {
+    recordHookFailure(hookName, hook);
+    const msg = `[hooks] ${hookName} handler from ${hook.pluginId} returned an invalid result (${problem})`;
+    if (strictHookResults()) {
+      throw new Error(msg);
+    }
+    logger?.warn(`${msg}; ignored`);
+    if (!reportedInvalid.has(hook)) {
+      reportedInvalid.add(hook);
+      registry.diagnostics.push({
+        level: "warn",
+        pluginId: hook.pluginId,
+        source: hook.source,
+        message: `${hookName} handler returned an invalid result (${problem})`,
+      });
+    }
+  };
+
+  /**
+   * Call one awaited handler under its timeout, trace it and check its
+   * result. Resolves to the result, or undefined when the handler failed or
+   * its result was discarded (both already logged and counted).
+   */
+  async function callGuardedHandler(
+    hookName: PluginHookName,
+    hook: PluginHookRegistration,
+    event: unknown,
+    ctx: unknown,
+  ): Promise<{ result: unknown } | undefined> {
+    const trace = startHandlerTrace(hookName, hook, event, ctx);
+    let result: unknown;
+    try {
+      result = await callHandler<unknown>(hookName, hook, event, ctx);
+      trace.done(result);
+    } catch (err) {
+      trace.failed(err);
+      recordHookFailure(hookName, hook);
+      handleHookError({ hookName, pluginId: hook.pluginId, error: err });
+      return undefined;
+    }
+    const invalid = validateHookResult(hookName, result);
+    if (invalid !== undefined) {
+      rejectInvalidResult(hookName, hook, invalid);
+      return undefined;
+    }
+    breakers.succeeded(hook);
+    return { result };
+  }
+
   /**
    * Run a hook that doesn't return a value (fire-and-forget style).
    * All handlers are executed in parallel for performance.
@@ -220,22 +304,14 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     event: Parameters<NonNullable<PluginHookRegistration<K>["handler"]>>[0],
     ctx: Parameters<NonNullable<PluginHookRegistration<K>["handler"]>>[1],
   ): Promise<void> {
-    const hooks = getHooksForName(registry, hookName);
+    const hooks = getActiveHooks(hookName);
     if (hooks.length === 0) {
       return;
     }
 
     logger?.debug?.(`[hooks] running ${hookName} (${hooks.length} handlers)`);
 
-    const promises = hooks.map(async (hook) => {
-      try {
-        await (hook.handler as (event: unknown, ctx: unknown) => Promise<void>)(event, ctx);
-      } catch (err) {
-        handleHookError({ hookName, pluginId: hook.pluginId, error: err });
-      }
-    });
-
-    await Promise.all(promises);
+    await Promise.all(hooks.map((hook) => callGuardedHandler(hookName, hook, event, ctx)));
   }
 
   /**
@@ -248,7 +324,7 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     ctx: Parameters<NonNullable<PluginHookRegistration<K>["handler"]>>[1],
     mergeResults?: (accumulated: TResult | undefined, next: TResult) => TResult,
   ): Promise<TResult | undefined> {
-    const hooks = getHooksForName(registry, hookName);
+    const hooks = getActiveHooks(hookName);
     if (hooks.length === 0) {
       return undefined;
     }
@@ -258,20 +334,16 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     let result: TResult | undefined;
 
     for (const hook of hooks) {
-      try {
-        const handlerResult = await (
-          hook.handler as (event: unknown, ctx: unknown) => Promise<TResult>
-        )(event, ctx);
-
-        if (handlerResult !== undefined && handlerResult !== null) {
-          if (mergeResults && result !== undefined) {
-            result = mergeResults(result, handlerResult);
-          } else {
-            result = handlerResult;
-          }
+      const handlerResult = (await callGuardedHandler(hookName, hook, event, ctx))?.result as
+        | TResult
+        | undefined;
+
+      if (handlerResult !== undefined && handlerResult !== null) {
+        if (mergeResults && result !== undefined) {
+          result = mergeResults(result, handlerResult);
+        } else {
+          result = handlerResult;
         }
-      } catch (err) {
-        handleHookError({ hookName, pluginId: hook.pluginId, error: err });
       }
     }
 
@@ -491,7 +563,7 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     event: PluginHookToolResultPersistEvent,
     ctx: PluginHookToolResultPersistContext,
   ): PluginHookToolResultPersistResult | undefined {
-    const hooks = getHooksForName(registry, "tool_result_persist");
+    const hooks = getActiveHooks("tool_result_persist");
     if (hooks.length === 0) {
       return undefined;
     }
@@ -499,12 +571,14 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     let current = event.message;
 
     for (const hook of hooks) {
+      const trace = startHandlerTrace("tool_result_persist", hook, { ...event, message: current }, ctx);
       try {
         // oxlint-disable-next-line typescript/no-explicit-any
         const out = (hook.handler as any)({ ...event, message: current }, ctx) as
           | PluginHookToolResultPersistResult
           | void
           | Promise<unknown>;
+        trace.done(out, current);
 
         // Guard against accidental async handlers (this hook is sync-only).
         // oxlint-disable-next-line typescript/no-explicit-any
@@ -519,11 +593,14 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
           throw new Error(msg);
         }
 
+        breakers.succeeded(hook);
         const next = (out as PluginHookToolResultPersistResult | undefined)?.message;
         if (next) {
           current = next;
         }
       } catch (err) {
+        trace.failed(err);
+        recordHookFailure("tool_result_persist", hook);
         const msg = `[hooks] tool_result_persist handler from ${hook.pluginId} failed: ${String(err)}`;
         if (catchErrors) {
           logger?.error(msg);
@@ -556,7 +633,7 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     event: PluginHookBeforeMessageWriteEvent,
     ctx: { agentId?: string; sessionKey?: string },
   ): PluginHookBeforeMessageWriteResult | undefined {
-    const hooks = getHooksForName(registry, "before_message_write");
+    const hooks = getActiveHooks("before_message_write");
     if (hooks.length === 0) {
       return undefined;
     }
@@ -564,12 +641,14 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     let current = event.message;
 
     for (const hook of hooks) {
+      const trace = startHandlerTrace("before_message_write", hook, { ...event, message: current }, ctx);
       try {
         // oxlint-disable-next-line typescript/no-explicit-any
         const out = (hook.handler as any)({ ...event, message: current }, ctx) as
           | PluginHookBeforeMessageWriteResult
           | void
           | Promise<unknown>;
+        trace.done(out, current);
 
         // Guard against accidental async handlers (this hook is sync-only).
         // oxlint-disable-next-line typescript/no-explicit-any
@@ -584,6 +663,7 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
           throw new Error(msg);
         }
 
+        breakers.succeeded(hook);
         const result = out as PluginHookBeforeMessageWriteResult | undefined;
 
         // If any handler blocks, return immediately.
@@ -596,6 +676,8 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
           current = result.message;
         }
       } catch (err) {
+        trace.failed(err);
+        recordHookFailure("before_message_write", hook);
         const msg = `[hooks] before_message_write handler from ${hook.pluginId} failed: ${String(err)}`;
         if (catchErrors) {
           logger?.error(msg);
@@ -714,13 +796,17 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
       "workspace_bootstrap_before",
       "workspace_bootstrap_after",
       "subagent_prompt_validate",
+      "sandbox_workspace_ready",
     ];
     const activeCount = SUPERPACK_HOOKS.filter((h) => hasHooks(h)).length;
     const hookSummary = SUPERPACK_HOOKS.map(
       (h) => `  ${hasHooks(h) ? "●" : "○"} ${h}`,
     ).join("\n");
+    const disabled = breakers.tripped().map(
+      (t) => `\n  ✖ ${t.pluginId} ${t.hookName} (disabled after ${t.failures} consecutive failures)`,
+    ).join("");
     logger?.warn(
-      `[superpack] loaded — ${activeCount}/${SUPERPACK_HOOKS.length} hooks active\n${hookSummary}`,
+      `[superpack] loaded — ${activeCount}/${SUPERPACK_HOOKS.length} hooks active\n${hookSummary}${disabled}`,
     );
   }
 
@@ -732,90 +818,84 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     event: PluginHookGatewayStopEvent,
     ctx: PluginHookGatewayContext,
   ): Promise<void> {
-    return runVoidHook("gateway_stop", event, ctx);
+    await runVoidHook("gateway_stop", event, ctx);
+    // Superpack: hook timing table (dump_hook_timing) and any pending drop summary
+    dumpHookTimingTable();
+    flushDiagDrops();
   }
 
   // =========================================================================
   // Superpack Hooks
   // =========================================================================
 
+  /**
+   * Run a superpack hook with the semantics shared with the standalone
+   * runner (superpack-hook-semantics.ts). Like the upstream runners, returns
+   * undefined when no handler is registered.
+   */
+  async function runSuperpackSemantics<K extends SuperpackHookName>(
+    hookName: K,
+    event: unknown,
+    ctx: unknown,
+  ): Promise<SuperpackHookResult<K> | undefined> {
+    const hooks = getActiveHooks(hookName);
+    if (hooks.length === 0) {
+      return undefined;
+    }
+
+    logger?.debug?.(`[hooks] running ${hookName} (${hooks.length} handlers)`);
+
+    return runSuperpackHook(hookName, hooks, event, (hook, handlerEvent) =>
+      callGuardedHandler(hookName, hook, handlerEvent, ctx),
+    );
+  }
+
   /**
    * Run system_prompt_tools_filter hook.
    * Allows plugins to filter/modify the tool list before system prompt assembly.
-   * Runs sequentially.
+   * Runs sequentially; each handler sees the list left by the previous one.
    */
   async function runSystemPromptToolsFilter(
     event: PluginHookSystemPromptToolsFilterEvent,
     ctx: PluginHookAgentContext,
   ): Promise<PluginHookSystemPromptToolsFilterResult | undefined> {
-    return runModifyingHook<"system_prompt_tools_filter", PluginHookSystemPromptToolsFilterResult>(
-      "system_prompt_tools_filter",
-      event,
-      ctx,
-      (acc, next) => ({
-        tools: next.tools ?? acc?.tools ?? [],
-      }),
-    );
+    return runSuperpackSemantics("system_prompt_tools_filter", event, ctx);
   }
 
   /**
    * Run system_prompt_skills_filter hook.
    * Allows plugins to modify the skills prompt section.
-   * Runs sequentially.
+   * Runs sequentially; each handler sees the prompt left by the previous one.
    */
   async function runSystemPromptSkillsFilter(
     event: PluginHookSystemPromptSkillsFilterEvent,
     ctx: PluginHookAgentContext,
   ): Promise<PluginHookSystemPromptSkillsFilterResult | undefined> {
-    return runModifyingHook<"system_prompt_skills_filter", PluginHookSystemPromptSkillsFilterResult>(
-      "system_prompt_skills_filter",
-      event,
-      ctx,
-      (acc, next) => ({
-        skillsPrompt: next.skillsPrompt ?? acc?.skillsPrompt ?? "",
-      }),
-    );
+    return runSuperpackSemantics("system_prompt_skills_filter", event, ctx);
   }
 
   /**
    * Run system_prompt_footer hook.
    * Allows plugins to append content to the system prompt.
-   * Runs sequentially, accumulating appended strings.
+   * Runs sequentially, joining non-empty appends with newlines.
    */
   async function runSystemPromptFooter(
     event: PluginHookSystemPromptFooterEvent,
     ctx: PluginHookAgentContext,
   ): Promise<PluginHookSystemPromptFooterResult | undefined> {
-    return runModifyingHook<"system_prompt_footer", PluginHookSystemPromptFooterResult>(
-      "system_prompt_footer",
-      event,
-      ctx,
-      (acc, next) => ({
-        append: acc?.append && next.append
-          ? `${acc.append}\n${next.append}`
-          : (next.append ?? acc?.append ?? ""),
-      }),
-    );
+    return runSuperpackSemantics("system_prompt_footer", event, ctx);
   }
 
   /**
    * Run workspace_bootstrap_before hook.
    * Allows plugins to filter/modify template files before writing.
-   * Runs sequentially.
+   * Runs sequentially; each handler sees the files left by the previous one.
    */
   async function runWorkspaceBootstrapBefore(
     event: PluginHookWorkspaceBootstrapBeforeEvent,
     ctx: Record<string, unknown>,
   ): Promise<PluginHookWorkspaceBootstrapBeforeResult | undefined> {
-    return runModifyingHook<"workspace_bootstrap_before", PluginHookWorkspaceBootstrapBeforeResult>(
-      "workspace_bootstrap_before",
-      event,
-      ctx,
-      (acc, next) => ({
-        files: next.files ?? acc?.files ?? [],
-        skip: next.skip || (acc?.skip ?? false),
-      }),
-    );
+    return runSuperpackSemantics("workspace_bootstrap_before", event, ctx);
   }
 
   /**
@@ -827,28 +907,32 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     event: PluginHookWorkspaceBootstrapAfterEvent,
     ctx: Record<string, unknown>,
   ): Promise<void> {
-    return runVoidHook("workspace_bootstrap_after", event, ctx);
+    await runSuperpackSemantics("workspace_bootstrap_after", event, ctx);
   }
 
   /**
    * Run subagent_prompt_validate hook.
    * Allows plugins to block subagent launches based on prompt content.
-   * Runs sequentially; first block wins.
+   * Runs sequentially; the first block wins and later handlers are skipped.
    */
   async function runSubagentPromptValidate(
     event: PluginHookSubagentPromptValidateEvent,
     ctx: PluginHookAgentContext,
   ): Promise<PluginHookSubagentPromptValidateResult | undefined> {
-    return runModifyingHook<"subagent_prompt_validate", PluginHookSubagentPromptValidateResult>(
-      "subagent_prompt_validate",
-      event,
-      ctx,
-      (acc, next) => {
-        // First block wins
-        if (acc?.block) return acc;
-        return next;
-      },
-    );
+    return runSuperpackSemantics("subagent_prompt_validate", event, ctx);
+  }
+
+  /**
+   * Run sandbox_workspace_ready hook.
+   * Fires after sandbox workspace bootstrap and skill sync, before the Docker
+   * container starts. Runs sequentially — each handler is awaited before the
+   * next. Handlers perform fs side effects directly (void return).
+   */
+  async function runSandboxWorkspaceReady(
+    event: PluginHookSandboxWorkspaceReadyEvent,
+    ctx: PluginHookAgentContext,
+  ): Promise<void> {
+    await runSuperpackSemantics("sandbox_workspace_ready", event, ctx);
   }
 
   // =========================================================================
@@ -859,8 +943,9 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
    * Check if any hooks are registered for a given hook name.
    */
   function hasHooks(hookName: PluginHookName): boolean {
-    // Superpack always needs gateway_start to emit its startup banner
-    if (hookName === "gateway_start") return true;
+    // Superpack always needs gateway_start for its startup banner, and
+    // gateway_stop for the hook timing table and pending diag drop summaries
+    if (hookName === "gateway_start" || hookName === "gateway_stop") return true;
     return registry.typedHooks.some((h) => h.hookName === hookName);
   }
 
@@ -909,6 +994,7 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     runWorkspaceBootstrapBefore,
     runWorkspaceBootstrapAfter,
     runSubagentPromptValidate,
+    runSandboxWorkspaceReady,
     // Utility
     hasHooks,
     getHookCount,
@@ -1,12 +1,18 @@
 /**
  * Tests for overlay hooks.ts — verifies that createHookRunner returns
- * runner methods for the 6 new superpack hooks, and that upstream runner
+ * runner methods for the 7 new superpack hooks, and that upstream runner
  * methods are preserved.
  */
 
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import type { PluginRegistry } from "/opt/openclaw-git/src/plugins/registry.js";
+import { resetThrottle } from "../diag-throttle.js";
+import { resetFlags } from "../flags.js";
+import { setConfigHookGuardLimits } from "./hook-guard.js";
+import { setConfigStrictHookResults } from "./hook-results.js";
+import { resetHookTiming } from "./hook-trace.js";
 import { createHookRunner } from "./hooks.js";
+import { createSuperpackHookRunner } from "./superpack-hooks.js";
 
 function makeEmptyRegistry(): PluginRegistry {
   return {
@@ -27,7 +33,7 @@ function makeEmptyRegistry(): PluginRegistry {
 }
 
 describe("overlay hooks.ts — superpack runner methods", () => {
-  it("returns runner with all 6 new superpack methods", () => {
+  it("returns runner with all 7 new superpack methods", () => {
     const runner = createHookRunner(makeEmptyRegistry());
     expect(typeof runner.runSystemPromptToolsFilter).toBe("function");
     expect(typeof runner.runSystemPromptSkillsFilter).toBe("function");
@@ -35,6 +41,7 @@ describe("overlay hooks.ts — superpack runner methods", () => {
     expect(typeof runner.runWorkspaceBootstrapBefore).toBe("function");
     expect(typeof runner.runWorkspaceBootstrapAfter).toBe("function");
     expect(typeof runner.runSubagentPromptValidate).toBe("function");
+    expect(typeof runner.runSandboxWorkspaceReady).toBe("function");
   });
 
   it("preserves upstream runner methods", () => {
@@ -152,6 +159,76 @@ describe("overlay hooks.ts — superpack runner methods", () => {
     expect(result!.block).toBe(true);
     expect(result!.reason).toBe("test block");
   });
+
+  const sandboxEvent = {
+    workspaceDir: "/tmp/sandbox",
+    agentWorkspaceDir: "/tmp/workspace",
+    agentId: "code-only",
+    sessionKey: "agent:main:subagent:code-only:abc",
+    scopeKey: "abc",
+    isNewWorkspace: true,
+  };
+
+  it("runSandboxWorkspaceReady returns undefined when no hooks registered", async () => {
+    const runner = createHookRunner(makeEmptyRegistry());
+    const result = await runner.runSandboxWorkspaceReady(sandboxEvent, { agentId: "main" });
+    expect(result).toBeUndefined();
+  });
+
+  it("runSandboxWorkspaceReady awaits each handler in priority order", async () => {
+    const order: string[] = [];
+    const registry = makeEmptyRegistry();
+    registry.typedHooks.push({
+      pluginId: "plugin-b",
+      hookName: "sandbox_workspace_ready" as any,
+      handler: (async () => { order.push("b"); }) as any,
+      priority: 0,
+      source: "test",
+    });
+    registry.typedHooks.push({
+      pluginId: "plugin-a",
+      hookName: "sandbox_workspace_ready" as any,
+      handler: (async () => {
+        order.push("a:start");
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        order.push("a:end");
+      }) as any,
+      priority: 10,
+      source: "test",
+    });
+
+    const runner = createHookRunner(registry);
+    await runner.runSandboxWorkspaceReady(sandboxEvent, { agentId: "main" });
+    // Higher priority first, and finished before the next one starts
+    expect(order).toEqual(["a:start", "a:end", "b"]);
+  });
+
+  it("runSandboxWorkspaceReady keeps going after a handler throws", async () => {
+    const seen: boolean[] = [];
+    const errors: string[] = [];
+    const registry = makeEmptyRegistry();
+    registry.typedHooks.push({
+      pluginId: "broken",
+      hookName: "sandbox_workspace_ready" as any,
+      handler: (() => { throw new Error("disk full"); }) as any,
+      priority: 10,
+      source: "test",
+    });
+    registry.typedHooks.push({
+      pluginId: "ok",
+      hookName: "sandbox_workspace_ready" as any,
+      handler: ((event: { isNewWorkspace: boolean }) => { seen.push(event.isNewWorkspace); }) as any,
+      priority: 0,
+      source: "test",
+    });
+
+    const runner = createHookRunner(registry, {
+      logger: { warn: () => {}, error: (msg: string) => { errors.push(msg); } },
+    });
+    await runner.runSandboxWorkspaceReady(sandboxEvent, { agentId: "main" });
+    expect(seen).toEqual([true]);
+    expect(errors.join("\n")).toContain("disk full");
+  });
 });
 
 describe("superpack startup banner", () => {
@@ -161,9 +238,14 @@ describe("superpack startup banner", () => {
     expect(runner.hasHooks("gateway_start" as any)).toBe(true);
   });
 
+  it("hasHooks('gateway_stop') is always true even with empty registry", () => {
+    const runner = createHookRunner(makeEmptyRegistry());
+    // So the upstream guard doesn't skip runGatewayStop and its timing table
+    expect(runner.hasHooks("gateway_stop" as any)).toBe(true);
+  });
+
   it("hasHooks returns false for other hooks with no registrations", () => {
     const runner = createHookRunner(makeEmptyRegistry());
-    expect(runner.hasHooks("gateway_stop" as any)).toBe(false);
     expect(runner.hasHooks("session_start" as any)).toBe(false);
     expect(runner.hasHooks("system_prompt_footer" as any)).toBe(false);
   });
@@ -187,9 +269,10 @@ describe("superpack startup banner", () => {
     // Step 3: banner should have been emitted
     expect(warnMessages.length).toBe(1);
     expect(warnMessages[0]).toContain("[superpack] loaded");
-    expect(warnMessages[0]).toContain("0/6 hooks active");
+    expect(warnMessages[0]).toContain("0/7 hooks active");
     expect(warnMessages[0]).toContain("○ system_prompt_tools_filter");
     expect(warnMessages[0]).toContain("○ subagent_prompt_validate");
+    expect(warnMessages[0]).toContain("○ sandbox_workspace_ready");
   });
 
   it("banner shows active hooks when plugins register handlers", async () => {
@@ -218,9 +301,400 @@ describe("superpack startup banner", () => {
     const runner = createHookRunner(registry, { logger: mockLogger });
     await runner.runGatewayStart({ port: 18789 }, { port: 18789 });
 
-    expect(warnMessages[0]).toContain("2/6 hooks active");
+    expect(warnMessages[0]).toContain("2/7 hooks active");
     expect(warnMessages[0]).toContain("● system_prompt_footer");
     expect(warnMessages[0]).toContain("● workspace_bootstrap_before");
     expect(warnMessages[0]).toContain("○ system_prompt_tools_filter");
   });
 });
+
+describe("hook tracing flags", () => {
+  const originalEnv = { ...process.env };
+  let stderr: string[];
+
+  beforeEach(() => {
+    delete process.env.SUPERPACK_PRESET;
+    stderr = [];
+    vi.spyOn(process.stderr, "write").mockImplementation((chunk) => {
+      stderr.push(String(chunk));
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    process.env = { ...originalEnv };
+    resetFlags();
+    resetHookTiming();
+    resetThrottle();
+  });
+
+  function registryWith(...hooks: Array<{ pluginId: string; hookName: string; handler: unknown; priority?: number }>) {
+    const registry = makeEmptyRegistry();
+    for (const h of hooks) registry.typedHooks.push({ priority: 0, source: "test", ...h } as any);
+    return registry;
+  }
+
+  it("logs every handler call of modifying, void and sync hooks with dump_hook_events", async () => {
+    process.env.SUPERPACK_FLAGS = "dump_hook_events";
+    resetFlags();
+    const runner = createHookRunner(
+      registryWith(
+        { pluginId: "guard", hookName: "before_tool_call", handler: () => ({ block: true }), priority: 3 },
+        { pluginId: "audit", hookName: "after_tool_call", handler: async () => {} },
+        { pluginId: "scrub", hookName: "before_message_write", handler: () => ({ message: { text: "b" } }) },
+      ),
+    );
+
+    await runner.runBeforeToolCall({ toolName: "exec", params: {} } as any, { agentId: "main" } as any);
+    await runner.runAfterToolCall({ toolName: "exec" } as any, {} as any);
+    runner.runBeforeMessageWrite({ message: { text: "a" } } as any, {});
+
+    const output = stderr.join("");
+    expect(output).toContain('before_tool_call ← guard (priority 3)');
+    expect(output).toContain('→ {"block":true}');
+    expect(output).toContain("after_tool_call ← audit (priority 0)");
+    expect(output).toContain("before_message_write ← scrub (priority 0)");
+    expect(output).toContain("changed message: ~text");
+  });
+
+  it("logs the timing table at gateway stop with dump_hook_timing", async () => {
+    process.env.SUPERPACK_FLAGS = "dump_hook_timing";
+    resetFlags();
+    const runner = createHookRunner(
+      registryWith({ pluginId: "memory", hookName: "agent_end", handler: async () => {} }),
+    );
+
+    await runner.runAgentEnd({ messages: [] } as any, {} as any);
+    expect(stderr.join("")).toMatch(/agent_end memory \d+\.\dms/);
+    // Upstream does: if (hookRunner?.hasHooks("gateway_stop")) { await hookRunner.runGatewayStop(...) }
+    // and no plugin here handles gateway_stop
+    expect(runner.hasHooks("gateway_stop" as any)).toBe(true);
+    await runner.runGatewayStop({}, {} as any);
+
+    const output = stderr.join("");
+    expect(output).toContain("Hook timing since start");
+    expect(output).toMatch(/agent_end\s+1\s/);
+    expect(output).toContain("memory agent_end: max");
+  });
+
+  it("logs the timing table when dump_hook_timing is on for one agent only", async () => {
+    process.env.SUPERPACK_FLAGS = "dump_hook_timing@agent=main";
+    resetFlags();
+    const runner = createHookRunner(
+      registryWith({ pluginId: "memory", hookName: "agent_end", handler: async () => {} }),
+    );
+
+    await runner.runAgentEnd({ messages: [] } as any, { agentId: "main" } as any);
+    await runner.runGatewayStop({}, {} as any);
+
+    const output = stderr.join("");
+    expect(output).toContain("Hook timing since start");
+    expect(output).toContain("memory agent_end: max");
+  });
+
+  it("reports diag records dropped since the last summary at gateway stop", async () => {
+    process.env.SUPERPACK_FLAGS = "dump_hook_events:0.5";
+    resetFlags();
+    const runner = createHookRunner(
+      registryWith({ pluginId: "memory", hookName: "agent_end", handler: async () => {} }),
+    );
+    for (let i = 0; i < 4; i++) await runner.runAgentEnd({ messages: [] } as any, {} as any);
+    expect(stderr.join("")).not.toContain("dropped");
+
+    expect(runner.hasHooks("gateway_stop" as any)).toBe(true);
+    await runner.runGatewayStop({}, {} as any);
+    expect(stderr.join("")).toMatch(/dropped \d+ dump_hook_events record\(s\): \d+ sampled out/);
+  });
+
+  it("stays quiet with the flags off", async () => {
+    delete process.env.SUPERPACK_FLAGS;
+    resetFlags();
+    const runner = createHookRunner(
+      registryWith({ pluginId: "memory", hookName: "agent_end", handler: async () => {} }),
+    );
+    await runner.runAgentEnd({ messages: [] } as any, {} as any);
+    await runner.runGatewayStop({}, {} as any);
+    expect(stderr).toEqual([]);
+  });
+});
+
+describe("handler timeouts and circuit breakers", () => {
+  afterEach(() => {
+    setConfigHookGuardLimits(undefined);
+  });
+
+  function registryWith(...hooks: Array<{ pluginId: string; hookName: string; handler: unknown; timeoutMs?: number }>) {
+    const registry = makeEmptyRegistry();
+    for (const h of hooks) registry.typedHooks.push({ priority: 0, source: "test", ...h } as any);
+    return registry;
+  }
+
+  const capture = () => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    return {
+      errors,
+      warnings,
+      logger: { warn: (m: string) => warnings.push(m), error: (m: string) => errors.push(m) },
+    };
+  };
+
+  it("gives up on a hung modifying handler after its registration timeout", async () => {
+    const log = capture();
+    const runner = createHookRunner(
+      registryWith(
+        { pluginId: "slow", hookName: "before_prompt_build", handler: () => new Promise(() => {}), timeoutMs: 20 },
+        { pluginId: "fast", hookName: "before_prompt_build", handler: async () => ({ prependContext: "ok" }) },
+      ),
+      { logger: log.logger },
+    );
+
+    const result = await runner.runBeforePromptBuild({ prompt: "hi", messages: [] } as any, {} as any);
+    expect(result).toEqual({ systemPrompt: undefined, prependContext: "ok" });
+    expect(log.errors).toEqual([
+      "[hooks] before_prompt_build handler from slow failed: Error: timed out after 20ms",
+    ]);
+  });
+
+  it("takes per-hook timeouts from config", async () => {
+    setConfigHookGuardLimits({ hooks: { agent_end: 10 } });
+    const log = capture();
+    const runner = createHookRunner(
+      registryWith({ pluginId: "slow", hookName: "agent_end", handler: () => new Promise(() => {}) }),
+      { logger: log.logger },
+    );
+    await runner.runAgentEnd({ messages: [] } as any, {} as any);
+    expect(log.errors[0]).toContain("timed out after 10ms");
+  });
+
+  it("times out upstream hooks by default unless they opt out", async () => {
+    setConfigHookGuardLimits({ timeoutMs: 10, hooks: { before_tool_call: 0 } });
+    const log = capture();
+    const runner = createHookRunner(
+      registryWith(
+        {
+          pluginId: "approval",
+          hookName: "before_tool_call",
+          handler: () => new Promise((resolve) => setTimeout(() => resolve({ block: true }), 40)),
+        },
+        { pluginId: "slow", hookName: "before_prompt_build", handler: () => new Promise(() => {}) },
+      ),
+      { logger: log.logger },
+    );
+
+    expect(await runner.runBeforeToolCall({ toolName: "exec", params: {} } as any, {} as any)).toEqual({ block: true });
+    await runner.runBeforePromptBuild({ prompt: "hi", messages: [] } as any, {} as any);
+    expect(log.errors).toEqual(["[hooks] before_prompt_build handler from slow failed: Error: timed out after 10ms"]);
+  });
+
+  it("disables a handler after consecutive failures and reports it", async () => {
+    setConfigHookGuardLimits({ breakerThreshold: 3 });
+    const log = capture();
+    let calls = 0;
+    const registry = registryWith({
+      pluginId: "flaky",
+      hookName: "after_tool_call",
+      handler: () => {
+        calls++;
+        throw new Error("boom");
+      },
+    });
+    const runner = createHookRunner(registry, { logger: log.logger });
+
+    for (let i = 0; i < 5; i++) {
+      await runner.runAfterToolCall({ toolName: "exec", params: {} } as any, {} as any);
+    }
+
+    expect(calls).toBe(3);
+    expect(log.errors).toHaveLength(3);
+    expect(log.warnings).toEqual([
+      "[superpack] ✖ flaky after_tool_call handler disabled after 3 consecutive failures",
+    ]);
+    expect(registry.diagnostics).toEqual([
+      {
+        level: "warn",
+        pluginId: "flaky",
+        source: "test",
+        message: "after_tool_call handler disabled after 3 consecutive failures",
+      },
+    ]);
+
+    await runner.runGatewayStart({ port: 18789 }, { port: 18789 });
+    expect(log.warnings.at(-1)).toContain("\n  ✖ flaky after_tool_call (disabled after 3 consecutive failures)");
+  });
+
+  it("never disables a guard hook handler", async () => {
+    setConfigHookGuardLimits({ breakerThreshold: 2 });
+    const log = capture();
+    let calls = 0;
+    const runner = createHookRunner(
+      registryWith({
+        pluginId: "guard",
+        hookName: "before_tool_call",
+        handler: () => {
+          if (++calls < 4) throw new Error("policy store unavailable");
+          return { block: true };
+        },
+      }),
+      { logger: log.logger },
+    );
+
+    for (let i = 0; i < 3; i++) {
+      await runner.runBeforeToolCall({ toolName: "exec", params: {} } as any, {} as any);
+    }
+    expect(await runner.runBeforeToolCall({ toolName: "exec", params: {} } as any, {} as any)).toEqual({ block: true });
+    expect(log.warnings).toEqual([]);
+  });
+
+  it("resets the failure count on success", async () => {
+    setConfigHookGuardLimits({ breakerThreshold: 2 });
+    const log = capture();
+    let n = 0;
+    const runner = createHookRunner(
+      registryWith({
+        pluginId: "alternating",
+        hookName: "tool_result_persist",
+        handler: () => {
+          if (n++ % 2 === 0) throw new Error("odd");
+        },
+      }),
+      { logger: log.logger },
+    );
+
+    for (let i = 0; i < 6; i++) {
+      runner.runToolResultPersist({ message: { role: "toolResult", content: "x" } } as any, {} as any);
+    }
+    expect(n).toBe(6);
+    expect(log.warnings).toEqual([]);
+  });
+});
+
+describe("hook result validation", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.SUPERPACK_STRICT_HOOKS;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    setConfigStrictHookResults(undefined);
+  });
+
+  function registryWith(...hooks: Array<{ pluginId: string; hookName: string; handler: unknown; priority?: number }>) {
+    const registry = makeEmptyRegistry();
+    for (const h of hooks) registry.typedHooks.push({ priority: 0, source: "test", ...h } as any);
+    return registry;
+  }
+
+  it("discards an invalid result and keeps the valid ones", async () => {
+    const warnings: string[] = [];
+    const registry = registryWith(
+      { pluginId: "good", hookName: "system_prompt_tools_filter", handler: () => ({ tools: [{ name: "read" }] }), priority: 2 },
+      { pluginId: "bad", hookName: "system_prompt_tools_filter", handler: () => ({ tools: "read" }), priority: 1 },
+    );
+    const runner = createHookRunner(registry, { logger: { warn: (m) => warnings.push(m), error: () => {} } });
+
+    const event = { tools: [{ name: "read" }, { name: "exec" }] };
+    expect(await runner.runSystemPromptToolsFilter(event, { agentId: "main" })).toEqual({ tools: [{ name: "read" }] });
+    await runner.runSystemPromptToolsFilter(event, { agentId: "main" });
+
+    expect(warnings).toEqual([
+      '[hooks] system_prompt_tools_filter handler from bad returned an invalid result (tools: expected an array, got string "read"); ignored',
+      '[hooks] system_prompt_tools_filter handler from bad returned an invalid result (tools: expected an array, got string "read"); ignored',
+    ]);
+    // Reported once per handler
+    expect(registry.diagnostics).toEqual([
+      {
+        level: "warn",
+        pluginId: "bad",
+        source: "test",
+        message: 'system_prompt_tools_filter handler returned an invalid result (tools: expected an array, got string "read")',
+      },
+    ]);
+  });
+
+  it("throws in strict mode, even when errors are caught", async () => {
+    setConfigStrictHookResults(true);
+    const runner = createHookRunner(
+      registryWith({ pluginId: "bad", hookName: "workspace_bootstrap_before", handler: () => ({ files: [], skip: "yes" }) }),
+      { logger: { warn: () => {}, error: () => {} } },
+    );
+    await expect(
+      runner.runWorkspaceBootstrapBefore({ workspaceDir: "/tmp", files: [], isNewWorkspace: true }, {}),
+    ).rejects.toThrow(
+      '[hooks] workspace_bootstrap_before handler from bad returned an invalid result (skip: expected a boolean, got string "yes")',
+    );
+  });
+});
+
+describe("overlay and standalone runners agree", () => {
+  const handlers = {
+    system_prompt_tools_filter: [
+      { priority: 10, handler: (e: any) => ({ tools: e.tools.filter((t: any) => t.name !== "exec") }) },
+      { priority: 5, handler: (e: any) => ({ tools: [...e.tools, { name: "custom" }] }) },
+      { priority: 1, handler: () => ({ tools: "broken" }) },
+    ],
+    system_prompt_skills_filter: [
+      { priority: 2, handler: (e: any) => ({ skillsPrompt: `${e.skillsPrompt} + a` }) },
+      { priority: 1, handler: () => { throw new Error("boom"); } },
+    ],
+    system_prompt_footer: [
+      { priority: 3, handler: () => ({ append: "A" }) },
+      { priority: 2, handler: () => ({ append: "" }) },
+      { priority: 1, handler: () => ({ append: "C" }) },
+    ],
+    workspace_bootstrap_before: [
+      { priority: 2, handler: (e: any) => ({ files: e.files, skip: true }) },
+      { priority: 1, handler: (e: any) => ({ files: e.files.slice(1), skip: false }) },
+    ],
+    subagent_prompt_validate: [
+      { priority: 3, handler: () => ({ block: false }) },
+      { priority: 2, handler: () => ({ block: true, reason: "second" }) },
+      { priority: 1, handler: () => ({ block: true, reason: "third" }) },
+    ],
+  };
+
+  const events = {
+    system_prompt_tools_filter: { tools: [{ name: "exec" }, { name: "read" }] },
+    system_prompt_skills_filter: { skillsPrompt: "skills" },
+    system_prompt_footer: { currentPrompt: "base" },
+    workspace_bootstrap_before: {
+      workspaceDir: "/w",
+      files: [
+        { name: "AGENTS.md", content: "a" },
+        { name: "TOOLS.md", content: "t" },
+      ],
+      isNewWorkspace: true,
+    },
+    subagent_prompt_validate: { agentId: "sub", parentAgentId: "main", systemPrompt: "p", sessionKey: "s" },
+  };
+
+  const methods = {
+    system_prompt_tools_filter: "runSystemPromptToolsFilter",
+    system_prompt_skills_filter: "runSystemPromptSkillsFilter",
+    system_prompt_footer: "runSystemPromptFooter",
+    workspace_bootstrap_before: "runWorkspaceBootstrapBefore",
+    subagent_prompt_validate: "runSubagentPromptValidate",
+  } as const;
+
+  for (const hookName of Object.keys(methods) as Array<keyof typeof methods>) {
+    it(`${hookName} gives the same result`, async () => {
+      const registry = makeEmptyRegistry();
+      for (const [i, h] of handlers[hookName].entries()) {
+        registry.typedHooks.push({ pluginId: `p${i}`, hookName, source: "test", ...h } as any);
+      }
+      const overlay = createHookRunner(registry, { logger: { warn: () => {}, error: () => {} } });
+      const standalone = createSuperpackHookRunner(
+        handlers[hookName].map((h) => ({ hookName, ...h })) as any,
+      );
+
+      const method = methods[hookName];
+      const fromOverlay = await (overlay[method] as any)(events[hookName], { agentId: "main" });
+      const fromStandalone = await (standalone[method] as any)(events[hookName], { agentId: "main" });
+      expect(fromOverlay).toBeDefined();
+      expect(fromOverlay).toEqual(fromStandalone);
+    });
+  }
+});
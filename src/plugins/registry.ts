@@ -0,0 +1,43 @@
+/**
+ * openclaw-superpack: Plugin registry overlay (patch)
+ *
+ * Wraps upstream's createPluginRegistry so every plugin API it creates
+ * carries `api.superpack` (see plugin-api.ts, which also registers the
+ * plugin's sensitive config values for redaction), and so
+ * `api.on(..., { timeoutMs })` lands on the hook registration (see
+ * hook-guard.ts). Everything else is upstream.
+ */
+
+import { createPluginRegistry as createUpstreamPluginRegistry } from "upstream:./registry.js";
+import { createSuperpackPluginApi } from "../plugin-api.js";
+
+export * from "upstream:./registry.js";
+
+export function createPluginRegistry(
+  ...args: Parameters<typeof createUpstreamPluginRegistry>
+): ReturnType<typeof createUpstreamPluginRegistry> {
+  const upstream = createUpstreamPluginRegistry(...args);
+  return {
+    ...upstream,
+    createApi: (...apiArgs: Parameters<typeof upstream.createApi>) => {
+      const api = upstream.createApi(...apiArgs);
+      const [record, params] = apiArgs;
+      return {
+        ...api,
+        on: (hookName, handler, opts) => {
+          api.on(hookName, handler, opts);
+          if (opts?.timeoutMs === undefined) return;
+          // Upstream copies only the priority; tag the registration it just added
+          const registration = upstream.registry.typedHooks.findLast(
+            (h) => h.hookName === hookName && h.handler === handler,
+          );
+          if (registration) registration.timeoutMs = opts.timeoutMs;
+        },
+        superpack: createSuperpackPluginApi(api.id, {
+          pluginConfig: params.pluginConfig,
+          uiHints: record.configUiHints,
+        }),
+      };
+    },
+  };
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import { runSuperpackHook, SUPERPACK_HOOK_SEMANTICS, type InvokeHandler } from "./superpack-hook-semantics.js";
+
+type FakeHook = { id: string; handler: (event: any) => unknown };
+
+/** Calls handlers directly; a throwing handler counts as failed. */
+function invoker(seen: Array<{ id: string; event: unknown }>): InvokeHandler<FakeHook> {
+  return async (hook, event) => {
+    seen.push({ id: hook.id, event });
+    try {
+      return { result: await hook.handler(event) };
+    } catch {
+      return undefined;
+    }
+  };
+}
+
+const hook = (id: string, handler: (event: any) => unknown): FakeHook => ({ id, handler });
+
+describe("superpack hook semantics table", () => {
+  it("covers every superpack hook", () => {
+    expect(Object.keys(SUPERPACK_HOOK_SEMANTICS).toSorted()).toEqual([
+      "sandbox_workspace_ready",
+      "subagent_prompt_validate",
+      "system_prompt_footer",
+      "system_prompt_skills_filter",
+      "system_prompt_tools_filter",
+      "workspace_bootstrap_after",
+      "workspace_bootstrap_before",
+    ]);
+  });
+
+  it("system_prompt_tools_filter chains the tool list", async () => {
+    const seen: Array<{ id: string; event: unknown }> = [];
+    const result = await runSuperpackHook(
+      "system_prompt_tools_filter",
+      [
+        hook("a", (e) => ({ tools: e.tools.filter((t: any) => t.name !== "exec") })),
+        hook("b", (e) => ({ tools: [...e.tools, { name: "custom" }] })),
+      ],
+      { agentId: "main", tools: [{ name: "exec" }, { name: "read" }] },
+      invoker(seen),
+    );
+    expect(result).toEqual({ tools: [{ name: "read" }, { name: "custom" }] });
+    expect(seen[1].event).toEqual({ agentId: "main", tools: [{ name: "read" }] });
+  });
+
+  it("system_prompt_skills_filter chains the prompt, including to empty", async () => {
+    const result = await runSuperpackHook(
+      "system_prompt_skills_filter",
+      [hook("a", (e) => ({ skillsPrompt: `${e.skillsPrompt}!` })), hook("b", () => ({ skillsPrompt: "" }))],
+      { skillsPrompt: "skills" },
+      invoker([]),
+    );
+    expect(result).toEqual({ skillsPrompt: "" });
+  });
+
+  it("system_prompt_footer joins non-empty appends and shows every handler the original event", async () => {
+    const seen: Array<{ id: string; event: unknown }> = [];
+    const event = { currentPrompt: "base" };
+    const result = await runSuperpackHook(
+      "system_prompt_footer",
+      [hook("a", () => ({ append: "A" })), hook("b", () => ({ append: "" })), hook("c", () => ({ append: "C" }))],
+      event,
+      invoker(seen),
+    );
+    expect(result).toEqual({ append: "A\nC" });
+    expect(seen.every((s) => s.event === event)).toBe(true);
+  });
+
+  it("workspace_bootstrap_before chains files and keeps skip once set", async () => {
+    const files = [
+      { name: "AGENTS.md", content: "a" },
+      { name: "TOOLS.md", content: "t" },
+    ];
+    const result = await runSuperpackHook(
+      "workspace_bootstrap_before",
+      [
+        hook("a", (e) => ({ files: e.files, skip: true })),
+        hook("b", (e) => ({ files: e.files.filter((f: any) => f.name !== "TOOLS.md"), skip: false })),
+      ],
+      { workspaceDir: "/w", files, isNewWorkspace: true },
+      invoker([]),
+    );
+    expect(result).toEqual({ files: [files[0]], skip: true });
+  });
+
+  it("workspace_bootstrap_before merges partial results", async () => {
+    const files = [{ name: "AGENTS.md", content: "a" }];
+    const result = await runSuperpackHook(
+      "workspace_bootstrap_before",
+      [hook("a", () => ({ skip: true })), hook("b", () => ({ files: [] })), hook("c", () => ({}))],
+      { workspaceDir: "/w", files, isNewWorkspace: true },
+      invoker([]),
+    );
+    expect(result).toEqual({ files: [], skip: true });
+  });
+
+  it("subagent_prompt_validate stops at the first block", async () => {
+    const seen: Array<{ id: string; event: unknown }> = [];
+    const result = await runSuperpackHook(
+      "subagent_prompt_validate",
+      [
+        hook("a", () => ({ block: false })),
+        hook("b", () => ({ block: true, reason: "b" })),
+        hook("c", () => ({ block: true, reason: "c" })),
+      ],
+      { agentId: "sub" },
+      invoker(seen),
+    );
+    expect(result).toEqual({ block: true, reason: "b" });
+    expect(seen.map((s) => s.id)).toEqual(["a", "b"]);
+  });
+
+  it("returns the initial result when handlers fail or return nothing", async () => {
+    const result = await runSuperpackHook(
+      "system_prompt_tools_filter",
+      [
+        hook("a", () => {
+          throw new Error("boom");
+        }),
+        hook("b", () => undefined),
+      ],
+      { tools: [{ name: "read" }] },
+      invoker([]),
+    );
+    expect(result).toEqual({ tools: [{ name: "read" }] });
+    expect(
+      await runSuperpackHook("subagent_prompt_validate", [], { agentId: "sub" }, invoker([])),
+    ).toEqual({ block: false });
+  });
+
+  it("workspace_bootstrap_after runs handlers in parallel", async () => {
+    const order: string[] = [];
+    const wait = (id: string, ms: number) => () =>
+      new Promise<void>((resolve) =>
+        setTimeout(() => {
+          order.push(id);
+          resolve();
+        }, ms),
+      );
+    await runSuperpackHook(
+      "workspace_bootstrap_after",
+      [hook("slow", wait("slow", 20)), hook("fast", wait("fast", 1))],
+      {},
+      invoker([]),
+    );
+    expect(order).toEqual(["fast", "slow"]);
+  });
+
+  it("sandbox_workspace_ready awaits each handler in turn", async () => {
+    const order: string[] = [];
+    const wait = (id: string, ms: number) => () =>
+      new Promise<void>((resolve) =>
+        setTimeout(() => {
+          order.push(id);
+          resolve();
+        }, ms),
+      );
+    await runSuperpackHook(
+      "sandbox_workspace_ready",
+      [hook("slow", wait("slow", 20)), hook("fast", wait("fast", 1))],
+      {},
+      invoker([]),
+    );
+    expect(order).toEqual(["slow", "fast"]);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * openclaw-superpack: How each superpack hook runs its handlers
+ *
+ * One table, one engine, used by both runners: the standalone
+ * createSuperpackHookRunner (superpack-hooks.ts) and the superpack section
+ * of the overlay hooks.ts. The runners differ only in how they call a single
+ * handler — the overlay adds timeouts, tracing, result validation, circuit
+ * breakers and its logger; the standalone runner silently drops failures
+ * and invalid results.
+ *
+ * Modifying hooks run sequentially in priority order (higher first):
+ *   system_prompt_tools_filter   each handler sees the tools left by the last; last list wins
+ *   system_prompt_skills_filter  each handler sees the prompt left by the last; last prompt wins
+ *   system_prompt_footer         every handler sees the original event; non-empty appends joined by "\n"
+ *   workspace_bootstrap_before   each handler sees the files left by the last (or leaves them out); skip is sticky
+ *   subagent_prompt_validate     the first { block: true } wins and later handlers don't run
+ * Void hooks:
+ *   workspace_bootstrap_after    all handlers in parallel
+ *   sandbox_workspace_ready      one after another, each awaited
+ *
+ * A handler that fails, or returns nothing, leaves the result so far alone.
+ */
+
+import type {
+  BootstrapFile,
+  SubagentPromptValidateResult,
+  SuperpackHookName,
+  SystemPromptFooterResult,
+  SystemPromptSkillsFilterResult,
+  SystemPromptToolsFilterResult,
+  ToolEntry,
+  WorkspaceBootstrapBeforeResult,
+} from "./superpack-hooks.js";
+
+// ---------------------------------------------------------------------------
+// Semantics table
+// ---------------------------------------------------------------------------
+
+export type ModifyingSemantics<E, R> = {
+  kind: "modifying";
+  /** Result before any handler has run */
+  initial: (event: E) => R;
+  /** Event handed to the next handler, given the result so far */
+  eventFor: (event: E, acc: R) => E;
+  /** Fold one handler's result into the result so far */
+  merge: (acc: R, next: R) => R;
+  /** Skip the remaining handlers once this holds */
+  done?: (acc: R) => boolean;
+};
+
+export type VoidSemantics = { kind: "parallel" | "sequential" };
+
+type SemanticsMap = {
+  system_prompt_tools_filter: ModifyingSemantics<{ tools: ToolEntry[] }, SystemPromptToolsFilterResult>;
+  system_prompt_skills_filter: ModifyingSemantics<{ skillsPrompt: string }, SystemPromptSkillsFilterResult>;
+  system_prompt_footer: ModifyingSemantics<unknown, SystemPromptFooterResult>;
+  workspace_bootstrap_before: ModifyingSemantics<{ files: BootstrapFile[] }, WorkspaceBootstrapBeforeResult>;
+  workspace_bootstrap_after: VoidSemantics;
+  subagent_prompt_validate: ModifyingSemantics<unknown, SubagentPromptValidateResult>;
+  sandbox_workspace_ready: VoidSemantics;
+};
+
+export const SUPERPACK_HOOK_SEMANTICS: SemanticsMap = {
+  system_prompt_tools_filter: {
+    kind: "modifying",
+    initial: (event) => ({ tools: event.tools }),
+    eventFor: (event, acc) => ({ ...event, tools: acc.tools }),
+    merge: (_acc, next) => ({ tools: next.tools }),
+  },
+  system_prompt_skills_filter: {
+    kind: "modifying",
+    initial: (event) => ({ skillsPrompt: event.skillsPrompt }),
+    eventFor: (event, acc) => ({ ...event, skillsPrompt: acc.skillsPrompt }),
+    merge: (_acc, next) => ({ skillsPrompt: next.skillsPrompt }),
+  },
+  system_prompt_footer: {
+    kind: "modifying",
+    initial: () => ({ append: "" }),
+    eventFor: (event) => event,
+    merge: (acc, next) => ({
+      append: acc.append && next.append ? `${acc.append}\n${next.append}` : acc.append || next.append,
+    }),
+  },
+  workspace_bootstrap_before: {
+    kind: "modifying",
+    initial: (event) => ({ files: event.files, skip: false }),
+    eventFor: (event, acc) => ({ ...event, files: acc.files ?? event.files }),
+    merge: (acc, next) => ({ files: next.files ?? acc.files, skip: acc.skip || (next.skip ?? false) }),
+  },
+  workspace_bootstrap_after: { kind: "parallel" },
+  subagent_prompt_validate: {
+    kind: "modifying",
+    initial: () => ({ block: false }),
+    eventFor: (event) => event,
+    merge: (acc, next) => (next.block ? { block: true, reason: next.reason } : acc),
+    done: (acc) => acc.block,
+  },
+  sandbox_workspace_ready: { kind: "sequential" },
+};
+
+// ---------------------------------------------------------------------------
+// Engine
+// ---------------------------------------------------------------------------
+
+export type SuperpackHookResult<K extends SuperpackHookName> =
+  SemanticsMap[K] extends { initial: (event: never) => infer R } ? R : void;
+
+/**
+ * Calls one handler with the event it should see. Resolves to its result,
+ * or undefined when the handler failed or its result was discarded — the
+ * caller has already dealt with that.
+ */
+export type InvokeHandler<H> = (hook: H, event: unknown) => Promise<{ result: unknown } | undefined>;
+
+/** Run `hooks` (already in priority order) for `hookName` per the table. */
+export async function runSuperpackHook<K extends SuperpackHookName, H>(
+  hookName: K,
+  hooks: H[],
+  event: unknown,
+  invoke: InvokeHandler<H>,
+): Promise<SuperpackHookResult<K>> {
+  const semantics = SUPERPACK_HOOK_SEMANTICS[hookName] as ModifyingSemantics<unknown, unknown> | VoidSemantics;
+  if (semantics.kind !== "modifying") {
+    if (semantics.kind === "parallel") {
+      await Promise.all(hooks.map((hook) => invoke(hook, event)));
+    } else {
+      for (const hook of hooks) {
+        await invoke(hook, event);
+      }
+    }
+    return undefined as SuperpackHookResult<K>;
+  }
+
+  let acc = semantics.initial(event);
+  for (const hook of hooks) {
+    if (semantics.done?.(acc)) break;
+    const next = (await invoke(hook, semantics.eventFor(event, acc)))?.result;
+    if (next !== undefined && next !== null) {
+      acc = semantics.merge(acc, next);
+    }
+  }
+  return acc as SuperpackHookResult<K>;
+}
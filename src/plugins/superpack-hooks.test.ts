@@ -429,6 +429,38 @@ describe("superpack hook runner", () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // Context
+  // -----------------------------------------------------------------------
+  describe("context", () => {
+    it("passes ctx to every handler", async () => {
+      const seen: unknown[] = [];
+      const runner = createSuperpackHookRunner([
+        {
+          hookName: "system_prompt_footer",
+          handler: async (_event, ctx) => {
+            seen.push(ctx);
+            return { append: "x" };
+          },
+          priority: 0,
+        },
+        {
+          hookName: "workspace_bootstrap_after",
+          handler: async (_event, ctx) => {
+            seen.push(ctx);
+          },
+          priority: 0,
+        },
+      ]);
+      await runner.runSystemPromptFooter(
+        { agentId: "main", promptMode: "full", currentPrompt: "" },
+        { agentId: "main", sessionKey: "agent:main:main" },
+      );
+      await runner.runWorkspaceBootstrapAfter({ workspaceDir: "/w", filesWritten: [], filesSkipped: [] });
+      expect(seen).toEqual([{ agentId: "main", sessionKey: "agent:main:main" }, {}]);
+    });
+  });
+
   // -----------------------------------------------------------------------
   // hasHooks utility
   // -----------------------------------------------------------------------
@@ -5,8 +5,13 @@
  * Designed to run alongside (not replace) upstream's HookRunner.
  * The overlay files for types.ts and hooks.ts will wire these into
  * the upstream plugin system; this module is the standalone implementation.
+ * Both runners share how each hook combines its handlers' results — see
+ * superpack-hook-semantics.ts.
  */
 
+import { validateHookResult } from "./hook-results.js";
+import { runSuperpackHook, type InvokeHandler } from "./superpack-hook-semantics.js";
+
 // ---------------------------------------------------------------------------
 // Hook names
 // ---------------------------------------------------------------------------
@@ -74,9 +79,10 @@ export type WorkspaceBootstrapBeforeEvent = {
   isNewWorkspace: boolean;
 };
 
+/** Either field may be left out: files keeps the list so far, skip stays as it was */
 export type WorkspaceBootstrapBeforeResult = {
-  files: BootstrapFile[];
-  skip: boolean;
+  files?: BootstrapFile[];
+  skip?: boolean;
 };
 
 // workspace_bootstrap_after (fire-and-forget)
@@ -93,6 +99,8 @@ export type SandboxWorkspaceReadyEvent = {
   agentId: string;
   sessionKey: string;
   scopeKey: string;
+  /** First creation of this sandbox workdir */
+  isNewWorkspace: boolean;
 };
 
 // subagent_prompt_validate
@@ -108,6 +116,15 @@ export type SubagentPromptValidateResult = {
   reason?: string;
 };
 
+/** Who the hook fires for; mirrors upstream's PluginHookAgentContext */
+export type SuperpackHookContext = {
+  agentId?: string;
+  sessionKey?: string;
+  sessionId?: string;
+  workspaceDir?: string;
+  messageProvider?: string;
+};
+
 // ---------------------------------------------------------------------------
 // Handler type map
 // ---------------------------------------------------------------------------
@@ -115,30 +132,37 @@ export type SubagentPromptValidateResult = {
 type HandlerMap = {
   system_prompt_tools_filter: (
     event: SystemPromptToolsFilterEvent,
+    ctx: SuperpackHookContext,
   ) => Promise<SystemPromptToolsFilterResult | void> | SystemPromptToolsFilterResult | void;
 
   system_prompt_skills_filter: (
     event: SystemPromptSkillsFilterEvent,
+    ctx: SuperpackHookContext,
   ) => Promise<SystemPromptSkillsFilterResult | void> | SystemPromptSkillsFilterResult | void;
 
   system_prompt_footer: (
     event: SystemPromptFooterEvent,
+    ctx: SuperpackHookContext,
   ) => Promise<SystemPromptFooterResult | void> | SystemPromptFooterResult | void;
 
   workspace_bootstrap_before: (
     event: WorkspaceBootstrapBeforeEvent,
+    ctx: SuperpackHookContext,
   ) => Promise<WorkspaceBootstrapBeforeResult | void> | WorkspaceBootstrapBeforeResult | void;
 
   workspace_bootstrap_after: (
     event: WorkspaceBootstrapAfterEvent,
+    ctx: SuperpackHookContext,
   ) => Promise<void> | void;
 
   subagent_prompt_validate: (
     event: SubagentPromptValidateEvent,
+    ctx: SuperpackHookContext,
   ) => Promise<SubagentPromptValidateResult | void> | SubagentPromptValidateResult | void;
 
   sandbox_workspace_ready: (
     event: SandboxWorkspaceReadyEvent,
+    ctx: SuperpackHookContext,
   ) => Promise<void> | void;
 };
 
@@ -172,124 +196,69 @@ function getHooks<K extends SuperpackHookName>(
 }
 
 export function createSuperpackHookRunner(registrations: HookRegistration[]) {
-  // -- Sequential modifying: tools filter --
-  async function runSystemPromptToolsFilter(
-    event: SystemPromptToolsFilterEvent,
-  ): Promise<SystemPromptToolsFilterResult> {
-    const hooks = getHooks(registrations, "system_prompt_tools_filter");
-    let current = event.tools;
-    for (const hook of hooks) {
+  /** Call one handler; failures and results that don't match the hook's type are dropped. */
+  const invokeWith =
+    (ctx: SuperpackHookContext): InvokeHandler<HookRegistration> =>
+    async (hook, event) => {
       try {
-        const result = await hook.handler({ ...event, tools: current });
-        if (result?.tools) current = result.tools;
+        const result = await (hook.handler as (event: unknown, ctx: SuperpackHookContext) => unknown)(event, ctx);
+        return validateHookResult(hook.hookName, result) === undefined ? { result } : undefined;
       } catch {
-        // Error: pass through current state
+        return undefined;
       }
-    }
-    return { tools: current };
+    };
+
+  // Semantics for every hook live in superpack-hook-semantics.ts, shared with the overlay runner
+  const run = <K extends SuperpackHookName>(name: K, event: unknown, ctx: SuperpackHookContext) =>
+    runSuperpackHook(name, getHooks(registrations, name), event, invokeWith(ctx));
+
+  async function runSystemPromptToolsFilter(
+    event: SystemPromptToolsFilterEvent,
+    ctx: SuperpackHookContext = {},
+  ): Promise<SystemPromptToolsFilterResult> {
+    return run("system_prompt_tools_filter", event, ctx);
   }
 
-  // -- Sequential modifying: skills filter --
   async function runSystemPromptSkillsFilter(
     event: SystemPromptSkillsFilterEvent,
+    ctx: SuperpackHookContext = {},
   ): Promise<SystemPromptSkillsFilterResult> {
-    const hooks = getHooks(registrations, "system_prompt_skills_filter");
-    let current = event.skillsPrompt;
-    for (const hook of hooks) {
-      try {
-        const result = await hook.handler({ ...event, skillsPrompt: current });
-        if (result && "skillsPrompt" in result) current = result.skillsPrompt;
-      } catch {
-        // Error: pass through
-      }
-    }
-    return { skillsPrompt: current };
+    return run("system_prompt_skills_filter", event, ctx);
   }
 
-  // -- Sequential accumulating: footer --
   async function runSystemPromptFooter(
     event: SystemPromptFooterEvent,
+    ctx: SuperpackHookContext = {},
   ): Promise<SystemPromptFooterResult> {
-    const hooks = getHooks(registrations, "system_prompt_footer");
-    const parts: string[] = [];
-    for (const hook of hooks) {
-      try {
-        const result = await hook.handler(event);
-        if (result?.append) parts.push(result.append);
-      } catch {
-        // Error: skip
-      }
-    }
-    return { append: parts.join("\n") };
+    return run("system_prompt_footer", event, ctx);
   }
 
-  // -- Sequential modifying: workspace bootstrap before --
   async function runWorkspaceBootstrapBefore(
     event: WorkspaceBootstrapBeforeEvent,
+    ctx: SuperpackHookContext = {},
   ): Promise<WorkspaceBootstrapBeforeResult> {
-    const hooks = getHooks(registrations, "workspace_bootstrap_before");
-    let currentFiles = event.files;
-    let skip = false;
-    for (const hook of hooks) {
-      try {
-        const result = await hook.handler({ ...event, files: currentFiles });
-        if (result) {
-          if (result.files) currentFiles = result.files;
-          if (result.skip) skip = true;
-        }
-      } catch {
-        // Error: pass through
-      }
-    }
-    return { files: currentFiles, skip };
+    return run("workspace_bootstrap_before", event, ctx);
   }
 
-  // -- Fire-and-forget: workspace bootstrap after --
   async function runWorkspaceBootstrapAfter(
     event: WorkspaceBootstrapAfterEvent,
+    ctx: SuperpackHookContext = {},
   ): Promise<void> {
-    const hooks = getHooks(registrations, "workspace_bootstrap_after");
-    await Promise.all(
-      hooks.map(async (hook) => {
-        try {
-          await hook.handler(event);
-        } catch {
-          // Error: swallow
-        }
-      }),
-    );
+    return run("workspace_bootstrap_after", event, ctx);
   }
 
-  // -- Sequential blocking: subagent prompt validate --
   async function runSubagentPromptValidate(
     event: SubagentPromptValidateEvent,
+    ctx: SuperpackHookContext = {},
   ): Promise<SubagentPromptValidateResult> {
-    const hooks = getHooks(registrations, "subagent_prompt_validate");
-    for (const hook of hooks) {
-      try {
-        const result = await hook.handler(event);
-        if (result?.block) {
-          return { block: true, reason: result.reason };
-        }
-      } catch {
-        // Error: do not block
-      }
-    }
-    return { block: false };
+    return run("subagent_prompt_validate", event, ctx);
   }
 
-  // -- Sequential void: sandbox workspace ready --
   async function runSandboxWorkspaceReady(
     event: SandboxWorkspaceReadyEvent,
+    ctx: SuperpackHookContext = {},
   ): Promise<void> {
-    const hooks = getHooks(registrations, "sandbox_workspace_ready");
-    for (const hook of hooks) {
-      try {
-        await hook.handler(event);
-      } catch {
-        // Error: swallow, don't block container creation
-      }
-    }
+    return run("sandbox_workspace_ready", event, ctx);
   }
 
   // -- Utility --
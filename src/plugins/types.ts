@@ -14,6 +14,7 @@ import type { InternalHookHandler } from "../hooks/internal-hooks.js";
 import type { HookEntry } from "../hooks/types.js";
 import type { RuntimeEnv } from "../runtime.js";
 import type { WizardPrompter } from "../wizard/prompts.js";
+import type { SuperpackPluginApi } from "../plugin-api.js";
 import type { PluginRuntime } from "./runtime/types.js";
 
 export type { PluginRuntime } from "./runtime/types.js";
@@ -279,8 +280,14 @@ export type OpenClawPluginApi = {
   on: <K extends PluginHookName>(
     hookName: K,
     handler: PluginHookHandlerMap[K],
-    opts?: { priority?: number },
+    opts?: {
+      priority?: number;
+      /** Superpack: give up on this handler after this many ms (0 = never) */
+      timeoutMs?: number;
+    },
   ) => void;
+  /** Superpack diagnostics: plugin-defined flags and flag-gated logging */
+  superpack?: SuperpackPluginApi;
 };
 
 export type PluginOrigin = "bundled" | "global" | "workspace" | "config";
@@ -710,9 +717,10 @@ export type PluginHookWorkspaceBootstrapBeforeEvent = {
   isNewWorkspace: boolean;
 };
 
+/** Either field may be left out: files keeps the list so far, skip stays as it was */
 export type PluginHookWorkspaceBootstrapBeforeResult = {
-  files: PluginHookBootstrapFile[];
-  skip: boolean;
+  files?: PluginHookBootstrapFile[];
+  skip?: boolean;
 };
 
 // workspace_bootstrap_after hook (fire-and-forget)
@@ -742,6 +750,8 @@ export type PluginHookSandboxWorkspaceReadyEvent = {
   agentId: string;
   sessionKey: string;
   scopeKey: string;
+  /** First creation of this sandbox workdir */
+  isNewWorkspace: boolean;
 };
 
 // Hook handler types mapped by hook name
@@ -893,5 +903,7 @@ export type PluginHookRegistration<K extends PluginHookName = PluginHookName> =
   hookName: K;
   handler: PluginHookHandlerMap[K];
   priority?: number;
+  /** Superpack: handler timeout, overriding the per-hook and default ones */
+  timeoutMs?: number;
   source: string;
 };
@@ -0,0 +1,186 @@
+/**
+ * openclaw-superpack: Secret redaction for diagnostics
+ *
+ * Every diag record passes through redactRecord before it reaches a sink
+ * (see diag.ts), unless the dump_unredacted flag is on for it. Three sources
+ * of secrets are masked:
+ *   - built-in detectors for common key and token formats (DETECTORS)
+ *   - regexes from config (superpack.redact: ["internal-[0-9a-f]{32}"])
+ *   - literal values registered at runtime: config values whose
+ *     PluginConfigUiHint is `sensitive`, owner phone numbers, ...
+ *
+ * Like flags.ts, state lives on globalThis so values registered by the
+ * plugin copy of this module also apply to the overlays' copy.
+ */
+
+import type { DiagRecord } from "./diag.js";
+import type { PluginConfigUiHint } from "./plugins/types.js";
+
+// ---------------------------------------------------------------------------
+// Detectors
+// ---------------------------------------------------------------------------
+
+export type Detector = { name: string; pattern: RegExp };
+
+/**
+ * Built-in detectors. A pattern with a capture group masks only the group
+ * (the secret), keeping the surrounding key name for context.
+ */
+export const DETECTORS: readonly Detector[] = [
+  { name: "private-key", pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { name: "anthropic-key", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: "openai-key", pattern: /\bsk-(?:proj-|svcacct-)?[A-Za-z0-9_-]{20,}/g },
+  { name: "github-token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+  { name: "slack-token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "google-api-key", pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { name: "telegram-bot-token", pattern: /\b\d{8,10}:[A-Za-z0-9_-]{35}\b/g },
+  { name: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  { name: "bearer", pattern: /\bBearer\s+([A-Za-z0-9._~+/-]{16,}=*)/g },
+  {
+    name: "secret-field",
+    pattern:
+      /["']?(?:api[_-]?key|access[_-]?token|refresh[_-]?token|client[_-]?secret|secret|password|passwd)["']?\s*[:=]\s*["']?([^\s"',}]{6,})/gi,
+  },
+  { name: "phone-number", pattern: /(?<![\w+])\+[1-9]\d{7,14}\b/g },
+];
+
+const MASK = "[REDACTED]";
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+type RedactState = {
+  /** From config (superpack.redact) */
+  configPatterns: RegExp[];
+  /** Literal secrets registered at runtime */
+  values: Set<string>;
+};
+
+const STATE_KEY = Symbol.for("openclaw-superpack.redact");
+const state = ((globalThis as Record<symbol, unknown>)[STATE_KEY] ??= {
+  configPatterns: [],
+  values: new Set(),
+} satisfies RedactState) as RedactState;
+
+/**
+ * Config-driven patterns (superpack.redact). Invalid regexes are skipped and
+ * returned so the caller can report them.
+ */
+export function setConfigRedactPatterns(patterns?: string[]): string[] {
+  const invalid: string[] = [];
+  state.configPatterns = [];
+  for (const source of patterns ?? []) {
+    try {
+      state.configPatterns.push(new RegExp(source, "g"));
+    } catch {
+      invalid.push(source);
+    }
+  }
+  return invalid;
+}
+
+/** Mask these exact strings wherever they appear. Values under 4 chars are ignored. */
+export function addSensitiveValues(values: Iterable<string>): void {
+  for (const value of values) {
+    if (typeof value === "string" && value.trim().length >= 4) state.values.add(value.trim());
+  }
+}
+
+/** Forget registered values and config patterns (for testing). */
+export function resetRedaction(): void {
+  state.configPatterns = [];
+  state.values.clear();
+}
+
+/**
+ * String values in `config` at every path whose UI hint is `sensitive`.
+ * Hint paths are dotted; `*` matches any key at that level
+ * ("models.providers.*.apiKey").
+ */
+export function sensitiveConfigValues(
+  config: unknown,
+  uiHints: Record<string, PluginConfigUiHint>,
+): string[] {
+  const out: string[] = [];
+  const collect = (value: unknown) => {
+    if (typeof value === "string") out.push(value);
+    else if (Array.isArray(value)) value.forEach(collect);
+    else if (value && typeof value === "object") Object.values(value).forEach(collect);
+  };
+  const walk = (value: unknown, segments: string[]) => {
+    if (segments.length === 0) return collect(value);
+    if (!value || typeof value !== "object") return;
+    const [head, ...rest] = segments;
+    const record = value as Record<string, unknown>;
+    const keys = head === "*" ? Object.keys(record) : [head];
+    for (const key of keys) walk(record[key], rest);
+  };
+  for (const [hintPath, hint] of Object.entries(uiHints)) {
+    if (hint.sensitive) walk(config, hintPath.split("."));
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Redaction
+// ---------------------------------------------------------------------------
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Mask every secret in `text`. */
+export function redact(text: string): string {
+  let out = text;
+  // Literal values first: longest first, so a value containing another is masked whole
+  for (const value of [...state.values].sort((a, b) => b.length - a.length)) {
+    out = out.replace(new RegExp(escapeRegExp(value), "g"), MASK);
+  }
+  for (const { pattern } of [...DETECTORS, ...state.configPatterns.map((pattern) => ({ pattern }))]) {
+    out = out.replace(pattern, (match: string, secret?: unknown) =>
+      typeof secret === "string" && secret ? match.replace(secret, MASK) : MASK,
+    );
+  }
+  return out;
+}
+
+/** A copy of `record` with every string it carries redacted. The hash is kept. */
+export function redactRecord(record: DiagRecord): DiagRecord {
+  const title = record.title === undefined ? {} : { title: redact(record.title) };
+  switch (record.level) {
+    case "info":
+    case "warn":
+    case "error":
+    case "dump":
+      return { ...record, ...title, payload: redact(record.payload) };
+    case "list":
+      return { ...record, ...title, payload: record.payload.map(redact) };
+    case "file": {
+      const { detail } = record.payload;
+      return {
+        ...record,
+        ...title,
+        payload: {
+          ...record.payload,
+          path: redact(record.payload.path),
+          ...(detail !== undefined && { detail: redact(detail) }),
+        },
+      };
+    }
+    case "diff":
+      return {
+        ...record,
+        ...title,
+        payload: {
+          ...record.payload,
+          sections: record.payload.sections.map((s) => ({ ...s, section: redact(s.section) })),
+          hunks: record.payload.hunks.map((hunk) => ({
+            ...hunk,
+            ops: hunk.ops.map((op) => ({ ...op, line: redact(op.line) })),
+          })),
+        },
+      };
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * openclaw-superpack: State directory
+ *
+ * Where superpack keeps data that should survive gateway restarts. Lives
+ * under openclaw's own state dir ($OPENCLAW_STATE_DIR, default ~/.openclaw)
+ * in a superpack/ subdirectory so it never collides with upstream files.
+ */
+
+import os from "node:os";
+import path from "node:path";
+
+export function superpackStateDir(env: NodeJS.ProcessEnv = process.env): string {
+  const base = env.OPENCLAW_STATE_DIR?.trim() || path.join(os.homedir(), ".openclaw");
+  return path.join(base, "superpack");
+}
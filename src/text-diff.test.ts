@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { diffLines, sectionSummary, toHunks } from "./text-diff.js";
+
+const BEFORE = [
+  "You are a helpful agent.",
+  "",
+  "## Tools",
+  "- read",
+  "- write",
+  "",
+  "## Safety",
+  "Be careful.",
+].join("\n");
+
+describe("diffLines", () => {
+  it("returns only context lines for identical texts", () => {
+    const ops = diffLines(BEFORE, BEFORE);
+    expect(ops.every((o) => o.kind === " ")).toBe(true);
+    expect(ops.map((o) => o.line).join("\n")).toBe(BEFORE);
+  });
+
+  it("marks added and removed lines", () => {
+    const after = BEFORE.replace("- write", "- edit\n- exec");
+    const changed = diffLines(BEFORE, after).filter((o) => o.kind !== " ");
+    expect(changed).toEqual([
+      { kind: "-", line: "- write" },
+      { kind: "+", line: "- edit" },
+      { kind: "+", line: "- exec" },
+    ]);
+  });
+
+  it("reconstructs both sides", () => {
+    const after = "Intro changed.\n\n## Tools\n- read\n\n## Safety\nBe careful.\nReally.";
+    const ops = diffLines(BEFORE, after);
+    const oldSide = ops.filter((o) => o.kind !== "+").map((o) => o.line).join("\n");
+    const newSide = ops.filter((o) => o.kind !== "-").map((o) => o.line).join("\n");
+    expect(oldSide).toBe(BEFORE);
+    expect(newSide).toBe(after);
+  });
+
+  it("finds a shortest edit script for scattered changes", () => {
+    const before = Array.from({ length: 300 }, (_, i) => `line ${i}`);
+    const after = before.flatMap((line, i) => (i % 7 === 0 ? [] : i % 11 === 0 ? [line, `new ${i}`] : [line]));
+    const ops = diffLines(before.join("\n"), after.join("\n"));
+    expect(ops.filter((o) => o.kind !== "+").map((o) => o.line)).toEqual(before);
+    expect(ops.filter((o) => o.kind !== "-").map((o) => o.line)).toEqual(after);
+    const removed = before.filter((_, i) => i % 7 === 0).length;
+    const added = before.filter((_, i) => i % 7 !== 0 && i % 11 === 0).length;
+    expect(ops.filter((o) => o.kind !== " ")).toHaveLength(removed + added);
+  });
+
+  it("replaces everything when a rewrite is too large to diff", () => {
+    const before = Array.from({ length: 2500 }, (_, i) => `old ${i}`).join("\n");
+    const after = Array.from({ length: 2500 }, (_, i) => `new ${i}`).join("\n");
+    const ops = diffLines(before, after);
+    expect(ops.slice(0, 2500).every((o) => o.kind === "-")).toBe(true);
+    expect(ops.slice(2500).every((o) => o.kind === "+")).toBe(true);
+  });
+});
+
+describe("toHunks", () => {
+  it("numbers hunks like a unified diff", () => {
+    const after = BEFORE.replace("- write", "- edit\n- exec");
+    const [hunk, ...rest] = toHunks(diffLines(BEFORE, after), 1);
+    expect(rest).toEqual([]);
+    expect(hunk).toMatchObject({ oldStart: 4, oldLines: 3, newStart: 4, newLines: 4 });
+    expect(hunk.ops.map((o) => o.kind + o.line)).toEqual([" - read", "-- write", "+- edit", "+- exec", " "]);
+  });
+
+  it("splits changes that are far apart and merges ones that are close", () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+    const far = [...lines];
+    far[1] = "changed 1";
+    far[18] = "changed 18";
+    expect(toHunks(diffLines(lines.join("\n"), far.join("\n")), 3)).toHaveLength(2);
+
+    const near = [...lines];
+    near[5] = "changed 5";
+    near[10] = "changed 10";
+    expect(toHunks(diffLines(lines.join("\n"), near.join("\n")), 3)).toHaveLength(1);
+  });
+
+  it("returns no hunks when nothing changed", () => {
+    expect(toHunks(diffLines(BEFORE, BEFORE))).toEqual([]);
+  });
+});
+
+describe("sectionSummary", () => {
+  it("counts changes per markdown heading", () => {
+    const after = BEFORE.replace("You are", "You are now").replace("- write", "- edit\n- exec");
+    expect(sectionSummary(diffLines(BEFORE, after))).toEqual([
+      { section: "(preamble)", added: 1, removed: 1 },
+      { section: "## Tools", added: 2, removed: 1 },
+    ]);
+  });
+
+  it("attributes a removed section's lines to that section", () => {
+    const after = BEFORE.replace("\n## Safety\nBe careful.", "");
+    expect(sectionSummary(diffLines(BEFORE, after))).toEqual([
+      { section: "## Safety", added: 0, removed: 2 },
+    ]);
+  });
+});
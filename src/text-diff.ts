@@ -0,0 +1,175 @@
+/**
+ * openclaw-superpack: Line diff for diagnostics
+ *
+ * Small Myers diff over lines, unified-hunk grouping, and a per-section
+ * summary keyed by markdown headings. Used by diagDiff to show how a system
+ * prompt changed between runs.
+ */
+
+export type DiffOp = { kind: " " | "-" | "+"; line: string };
+
+export type DiffHunk = {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  ops: DiffOp[];
+};
+
+/** Beyond this many edits the diff degrades to "replace everything". */
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Myers' greedy diff. Step d only reads the furthest-reaching x on
+ * diagonals -(d-1), -(d-1)+2, ..., d-1, so that band of d values is all the
+ * trace keeps per step: D²/2 integers in total rather than D full vectors.
+ */
+function myers(a: string[], b: string[]): DiffOp[] | undefined {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    const band = new Int32Array(d);
+    for (let i = 0; i < d; i++) band[i] = v[offset - d + 1 + 2 * i];
+    trace.push(band);
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, a, b, d);
+    }
+  }
+  return undefined;
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[], d: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (; d > 0; d--) {
+    const band = trace[d];
+    // x on diagonal k before step d (k in the band: -(d-1) ≤ k ≤ d-1, same parity)
+    const at = (k: number) => band[(k + d - 1) >> 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ kind: " ", line: a[--x] });
+      y--;
+    }
+    if (x === prevX) ops.push({ kind: "+", line: b[--y] });
+    else ops.push({ kind: "-", line: a[--x] });
+  }
+  while (x > 0) ops.push({ kind: " ", line: a[--x] });
+  return ops.reverse();
+}
+
+/** Line-level diff of two texts. */
+export function diffLines(before: string, after: string): DiffOp[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // Trim the common prefix/suffix first: prompts usually change in one place
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const mid = myers(midA, midB) ?? [
+    ...midA.map((line): DiffOp => ({ kind: "-", line })),
+    ...midB.map((line): DiffOp => ({ kind: "+", line })),
+  ];
+  return [
+    ...a.slice(0, start).map((line): DiffOp => ({ kind: " ", line })),
+    ...mid,
+    ...a.slice(endA).map((line): DiffOp => ({ kind: " ", line })),
+  ];
+}
+
+/** Group a diff into unified hunks with `context` unchanged lines around each change. */
+export function toHunks(ops: DiffOp[], context = 3): DiffHunk[] {
+  // 1-based line numbers on each side at the start of every op
+  const oldAt: number[] = [];
+  const newAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    oldAt.push(oldLine);
+    newAt.push(newLine);
+    if (op.kind !== "+") oldLine++;
+    if (op.kind !== "-") newLine++;
+  }
+
+  // Merge changes whose context windows touch
+  const ranges: Array<[number, number]> = [];
+  ops.forEach((op, i) => {
+    if (op.kind === " ") return;
+    const last = ranges[ranges.length - 1];
+    if (last && i - last[1] <= 2 * context + 1) last[1] = i;
+    else ranges.push([i, i]);
+  });
+
+  return ranges.map(([first, last]) => {
+    const from = Math.max(0, first - context);
+    const to = Math.min(ops.length - 1, last + context);
+    const slice = ops.slice(from, to + 1);
+    return {
+      oldStart: oldAt[from],
+      oldLines: slice.filter((o) => o.kind !== "+").length,
+      newStart: newAt[from],
+      newLines: slice.filter((o) => o.kind !== "-").length,
+      ops: slice,
+    };
+  });
+}
+
+export type SectionChange = { section: string; added: number; removed: number };
+
+const HEADING = /^#{1,6}\s/;
+
+/**
+ * Added/removed line counts per markdown section. A line belongs to the
+ * nearest heading above it on its own side of the diff; lines before the
+ * first heading are "(preamble)".
+ */
+export function sectionSummary(ops: DiffOp[]): SectionChange[] {
+  const order: string[] = [];
+  const counts = new Map<string, SectionChange>();
+  let oldSection = "(preamble)";
+  let newSection = "(preamble)";
+  for (const op of ops) {
+    if (HEADING.test(op.line)) {
+      if (op.kind !== "+") oldSection = op.line.trim();
+      if (op.kind !== "-") newSection = op.line.trim();
+    }
+    if (op.kind === " ") continue;
+    const section = op.kind === "+" ? newSection : oldSection;
+    let entry = counts.get(section);
+    if (!entry) {
+      entry = { section, added: 0, removed: 0 };
+      counts.set(section, entry);
+      order.push(section);
+    }
+    if (op.kind === "+") entry.added++;
+    else entry.removed++;
+  }
+  return order.map((s) => counts.get(s)!);
+}